@@ -0,0 +1,108 @@
+import type { AudioRegion, Clip, Note, Track } from './dawproject-parser';
+import { PitchClassSetAnalyzer } from './pitch-class-set';
+import type { PitchClassSet } from './pitch-class-set';
+import { ChordSymbolAnalyzer } from './chord-symbol';
+import type { ChordAnalysis } from './chord-symbol';
+import type { TempoMap } from './tempo-map';
+import { TrackRoles } from './track-roles';
+import type { TrackRoleMap } from './track-roles';
+
+/**
+ * What the shape tracks sound at one point of the arrangement
+ */
+export interface ArrangementShape {
+  clips: Clip[];     // shape clips under the playhead
+  notes: Note[];     // notes sounding at the playhead
+  pitchClassSet?: PitchClassSet;
+  chord?: ChordAnalysis;
+}
+
+/**
+ * An audio region placed in seconds, ready for playback
+ */
+export interface TimedAudioRegion extends AudioRegion {
+  startSeconds: number;    // project timeline
+  durationSeconds: number; // audio plays at its own speed
+}
+
+export class Arrangement {
+  private referenceRegions: AudioRegion[];
+  private shapeClips: { trackId: string; clip: Clip }[];
+  private tempoMap: TempoMap;
+  private length: number;
+
+  constructor(tracks: Track[], roles: TrackRoleMap, tempoMap: TempoMap) {
+    this.tempoMap = tempoMap;
+
+    const clipsOf = (trackIds: string[]) => tracks
+      .filter(track => trackIds.includes(track.id))
+      .flatMap(track => track.clips.map(clip => ({ trackId: track.id, clip })));
+
+    this.referenceRegions = clipsOf(TrackRoles.getTrackIds(roles, 'reference'))
+      .flatMap(({ clip }) => clip.audioRegions ?? [])
+      .sort((a, b) => a.time - b.time);
+    this.shapeClips = clipsOf(TrackRoles.getTrackIds(roles, 'shape'))
+      .sort((a, b) => a.clip.time - b.clip.time);
+
+    const ends = [
+      ...this.referenceRegions.map(region => region.time + region.duration),
+      ...this.shapeClips.map(({ clip }) => clip.time + clip.duration)
+    ];
+    this.length = ends.length > 0 ? Math.max(...ends) : 0;
+  }
+
+  /**
+   * True when no reference or shape track has anything on the timeline
+   */
+  isEmpty(): boolean {
+    return this.length <= 0;
+  }
+
+  /**
+   * Beats from the start of the project to the end of the last clip
+   */
+  getLength(): number {
+    return this.length;
+  }
+
+  getLengthInSeconds(): number {
+    return this.tempoMap.beatsToSeconds(this.length);
+  }
+
+  /**
+   * Reference audio regions with their timeline position and length in seconds
+   */
+  getReferenceRegions(): TimedAudioRegion[] {
+    return this.referenceRegions.map(region => {
+      const startSeconds = this.tempoMap.beatsToSeconds(region.time);
+      return {
+        ...region,
+        startSeconds,
+        durationSeconds: this.tempoMap.beatsToSeconds(region.time + region.duration) - startSeconds
+      };
+    });
+  }
+
+  /**
+   * Notes of the shape tracks sounding at a beat position, and their analysis
+   */
+  getShapeAt(beats: number, excludedTrackIds: string[] = []): ArrangementShape {
+    const clips = this.shapeClips
+      .filter(({ trackId, clip }) => !excludedTrackIds.includes(trackId) && beats >= clip.time && beats < clip.time + clip.duration)
+      .map(({ clip }) => clip);
+
+    // Notes are placed in clip content time, which starts at the clip's play start
+    const notes = clips.flatMap(clip => {
+      const contentTime = beats - clip.time + clip.playStart;
+      return clip.notes.filter(note => contentTime >= note.time && contentTime < note.time + note.duration);
+    });
+
+    if (notes.length === 0) return { clips, notes };
+    return {
+      clips,
+      notes,
+      pitchClassSet: PitchClassSetAnalyzer.analyze(notes.map(note => note.key)),
+      chord: ChordSymbolAnalyzer.analyzeNotes(notes)
+    };
+  }
+}
@@ -1,20 +1,90 @@
 import JSZip from 'jszip';
+import type { Note } from './dawproject-parser';
+import type { WarpSegment } from './warp-map';
+import { ShapeSynth } from './shape-synth';
+import { Metronome } from './metronome';
+import type { Click } from './metronome';
+import { MAX_PLAYBACK_SPEED, MAX_TRANSPOSITION, MIN_PLAYBACK_SPEED, TimeStretcher } from './time-stretch';
+
+/**
+ * Audio to schedule on a timeline, all in seconds
+ */
+export interface TimelineRegion {
+  buffer: AudioBuffer;
+  start: number;    // timeline position
+  offset: number;   // position in the buffer
+  duration: number;
+}
+
+/**
+ * How a scene segment starts
+ */
+export interface LaunchOptions {
+  id?: string;        // what the segment plays, e.g. its scene
+  barLength?: number; // seconds of source audio per bar, for launches quantized to it
+  quantize?: boolean; // start at the next bar of the playing segment instead of now
+  shapeNotes?: Note[]; // synth notes to play along, in seconds of source audio from the start
+  clicks?: Click[];    // metronome clicks to play along, in seconds of source audio
+  countIn?: { clicks: Click[]; length: number }; // a bar of clicks before the segment starts
+}
+
+/**
+ * A segment's audio, rendered at the playback speed and transposition
+ */
+interface PreparedSegment {
+  buffer: AudioBuffer;
+  shapeBuffer?: AudioBuffer;
+  clickBuffer?: AudioBuffer;
+  countInBuffer?: AudioBuffer;
+  duration: number; // seconds of source audio
+}
+
+/**
+ * A segment started (or scheduled) on the AudioContext clock
+ */
+interface ScheduledSegment {
+  id?: string;
+  source: AudioBufferSourceNode; // the reference audio
+  voices: { source: AudioBufferSourceNode; gain: GainNode }[]; // reference, then synth and clicks
+  startsAt: number;   // AudioContext time
+  duration: number;   // seconds of source audio
+  speed: number;
+  fade: number;       // seconds it fades in and out over
+  barLength?: number;
+}
+
+const SCHEDULE_MARGIN = 0.005; // seconds needed to schedule a start on time
 
 export class AudioPlayer {
   private audioContext: AudioContext;
-  private currentSource?: AudioBufferSourceNode;
   private currentBuffer?: AudioBuffer;
-  private currentGain?: GainNode;
+  private current?: ScheduledSegment;    // the segment playing, or about to at a quantized launch
+  private queued?: ScheduledSegment;     // the segment starting when the current one ends
+  private released: ScheduledSegment[] = []; // replaced segments still sounding until their stop time
   private isPlaying: boolean = false;
   private audioBuffers: Map<string, AudioBuffer> = new Map();
+  private externalFiles: Map<string, Blob> = new Map(); // referenced path -> file outside the archive
   private stopRequested: boolean = false;
   private playerId: string;
   private loopMode: 'loop' | 'once' = 'loop';
   private onSegmentEnd?: () => void;
+  private crossfade: number = 0;         // seconds each segment fades in and out over
+  private playbackSpeed: number = 1;     // applied to scene segments, pitch preserved
+  private transposition: number = 0;     // semitones applied to scene segments, tempo kept
+  private referenceBus: GainNode;        // reference audio level
+  private shapeBus: GainNode;            // synth level
+  private timelineSources: AudioBufferSourceNode[] = [];
+  private timelineGain?: GainNode;
+  private timelineStartedAt: number = 0; // AudioContext time the timeline started
+  private timelineFrom: number = 0;      // timeline seconds where playback started
   
   constructor() {
     this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
     this.playerId = Math.random().toString(36).substr(2, 9);
+    this.referenceBus = this.audioContext.createGain();
+    this.referenceBus.connect(this.audioContext.destination);
+    this.shapeBus = this.audioContext.createGain();
+    this.shapeBus.connect(this.audioContext.destination);
     console.log(`AudioPlayer created with ID: ${this.playerId}`);
   }
   
@@ -25,13 +95,14 @@ export class AudioPlayer {
     }
     
     const audioFile = zip.file(audioPath);
-    if (!audioFile) {
+    const externalFile = this.externalFiles.get(audioPath);
+    if (!audioFile && !externalFile) {
       console.warn(`Audio file not found in DAWproject: ${audioPath}`);
       return null;
     }
     
     try {
-      const arrayBuffer = await audioFile.async('arraybuffer');
+      const arrayBuffer = audioFile ? await audioFile.async('arraybuffer') : await externalFile!.arrayBuffer();
       const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
       
       // Cache the decoded buffer
@@ -53,169 +124,428 @@ export class AudioPlayer {
     // This prevents overlapping audio issues
   }
 
-  async playSegment(buffer: AudioBuffer | null, startTime?: number, endTime?: number): Promise<void> {
+  /**
+   * Play a segment of a buffer, looping or once depending on the loop mode. The segment
+   * playing now gives way at the launch time: immediately, or at its next bar. A count-in
+   * plays from the launch time and the segment starts after it.
+   */
+  async playSegment(
+    buffer: AudioBuffer | null,
+    startTime?: number,
+    endTime?: number,
+    warpSegments?: WarpSegment[],
+    options: LaunchOptions = {}
+  ): Promise<void> {
     if (!buffer) return;
     
     console.log(`=== NEW PLAYBACK REQUEST (Player ${this.playerId}) - Mode: ${this.loopMode} ===`);
     
-    // FIRST: Stop everything and wait for cleanup
-    this.stop();
-    await new Promise(resolve => setTimeout(resolve, 100));
-    
-    // RESET the stop flag since we're starting new playback
-    this.stopRequested = false;
-    console.log('Reset stopRequested flag for new playback');
-    
     // Resume audio context if it's suspended
     if (this.audioContext.state === 'suspended') {
       await this.audioContext.resume();
     }
     
+    // A quantized switch is counted in by the bar the playing segment finishes
+    const countIn = options.quantize && this.getIsPlaying() ? undefined : options.countIn;
+    const segment = this.prepareSegment(buffer, startTime, endTime, warpSegments, { ...options, countIn });
+    const launchAt = options.quantize ? this.getNextBarTime() : this.audioContext.currentTime;
+    const at = launchAt + (segment.countInBuffer?.duration ?? 0);
+    
+    this.stopTimeline();
+    this.cancelQueued();
+    if (this.current) this.release(this.current, launchAt);
+    
+    this.current = this.startSegment(segment, at, options);
+    this.currentBuffer = buffer;
+    this.isPlaying = true;
+    this.stopRequested = false;
+    
+    console.log(`Segment ${options.id ?? ''} starts in ${(at - this.audioContext.currentTime).toFixed(3)}s with mode: ${this.loopMode}`);
+  }
+  
+  /**
+   * Schedule a segment to follow the current one-shot segment, starting on the exact
+   * sample it ends, or as it starts fading out so the two crossfade. False when nothing
+   * is playing once, or the end is too close to schedule.
+   */
+  scheduleNext(
+    buffer: AudioBuffer,
+    startTime?: number,
+    endTime?: number,
+    warpSegments?: WarpSegment[],
+    options: LaunchOptions = {}
+  ): boolean {
+    const current = this.current;
+    if (!current || this.loopMode !== 'once' || !this.getIsPlaying()) return false;
+    
+    const at = current.startsAt + current.source.buffer!.duration - current.fade;
+    if (at < this.audioContext.currentTime + SCHEDULE_MARGIN) {
+      console.warn(`Too late to schedule segment ${options.id ?? ''} after ${current.id}`);
+      return false;
+    }
+    
+    // Segments that follow on play straight on, without a count-in
+    const segment = this.prepareSegment(buffer, startTime, endTime, warpSegments, { ...options, countIn: undefined });
+    this.cancelQueued();
+    this.queued = this.startSegment(segment, at, options);
+    
+    console.log(`Segment ${options.id ?? ''} scheduled to follow ${current.id} in ${(at - this.audioContext.currentTime).toFixed(3)}s`);
+    return true;
+  }
+  
+  /**
+   * Id of the segment playing, or of the one a quantized launch is waiting to start
+   */
+  getCurrentSegmentId(): string | undefined {
+    return this.current?.id;
+  }
+  
+  /**
+   * Seconds each segment fades in and out over; 0 starts and stops them hard
+   */
+  setCrossfade(seconds: number): void {
+    this.crossfade = Math.max(0, seconds);
+  }
+  
+  /**
+   * Levels of the reference audio and the synth, 0 to 1
+   */
+  setMix(referenceGain: number, shapeGain: number): void {
+    const now = this.audioContext.currentTime;
+    this.referenceBus.gain.setTargetAtTime(referenceGain, now, 0.01);
+    this.shapeBus.gain.setTargetAtTime(shapeGain, now, 0.01);
+  }
+  
+  /**
+   * Helper: The audio between two positions of a buffer, warped to the project tempo
+   * and stretched to the playback speed and transposition, with the synth and clicks
+   * rendered to the same length
+   */
+  private prepareSegment(
+    buffer: AudioBuffer,
+    startTime?: number,
+    endTime?: number,
+    warpSegments?: WarpSegment[],
+    options: LaunchOptions = {}
+  ): PreparedSegment {
     const actualStartTime = startTime || 0;
     const actualEndTime = endTime || buffer.duration;
     
-    console.log(`Starting playback: start=${actualStartTime}s, end=${actualEndTime}s, duration=${buffer.duration}s`);
-    
     // Validate and clamp times
     const tolerance = 0.1;
+    let segmentBuffer: AudioBuffer;
     if (actualStartTime >= actualEndTime || 
         actualStartTime < 0 || 
         actualEndTime > (buffer.duration + tolerance) || 
         actualStartTime >= buffer.duration) {
       console.warn('Invalid audio times, playing full buffer');
-      this.playSimpleLoop(buffer);
-      return;
+      segmentBuffer = buffer;
+    } else if (warpSegments && warpSegments.length > 0) {
+      // Warped clips play at the project tempo: render the warped region first
+      segmentBuffer = this.renderWarpedSegment(buffer, warpSegments);
+    } else {
+      segmentBuffer = this.copySegment(buffer, actualStartTime, Math.min(actualEndTime, buffer.duration));
     }
     
-    const clampedEndTime = Math.min(actualEndTime, buffer.duration);
-    this.playSegmentWithMode(buffer, actualStartTime, clampedEndTime);
-  }
-  
-  private playSimpleLoop(buffer: AudioBuffer): void {
-    console.log('Playing simple full buffer loop');
+    const stretched = this.playbackSpeed === 1 && this.transposition === 0
+      ? segmentBuffer
+      : this.stretchBuffer(segmentBuffer, this.playbackSpeed, this.transposition);
     
-    // Create source
-    this.currentSource = this.audioContext.createBufferSource();
-    this.currentSource.buffer = buffer;
-    this.currentSource.loop = true;
+    const speed = this.playbackSpeed;
+    const sampleRate = stretched.sampleRate;
+    const length = stretched.length / sampleRate;
+    const atSpeed = (clicks: Click[]) => clicks.map(click => ({ ...click, time: click.time / speed }));
+    const prepared: PreparedSegment = { buffer: stretched, duration: segmentBuffer.duration };
     
-    // Create gain for volume control
-    this.currentGain = this.audioContext.createGain();
-    this.currentSource.connect(this.currentGain);
-    this.currentGain.connect(this.audioContext.destination);
-    
-    // Start immediately
-    this.currentSource.start(0);
-    this.currentBuffer = buffer;
-    this.isPlaying = true;
-    this.stopRequested = false;
+    if (options.shapeNotes?.length) {
+      prepared.shapeBuffer = this.toBuffer(ShapeSynth.render(
+        options.shapeNotes.map(note => ({ ...note, time: note.time / speed, duration: note.duration / speed })),
+        length,
+        sampleRate
+      ), sampleRate);
+    }
+    if (options.clicks?.length) {
+      prepared.clickBuffer = this.toBuffer(Metronome.render(atSpeed(options.clicks), length, sampleRate), sampleRate);
+    }
+    if (options.countIn) {
+      prepared.countInBuffer = this.toBuffer(
+        Metronome.render(atSpeed(options.countIn.clicks), options.countIn.length / speed, sampleRate),
+        sampleRate
+      );
+    }
     
-    console.log('Simple loop started');
+    return prepared;
   }
   
-
-  private playSegmentWithMode(buffer: AudioBuffer, startTime: number, endTime: number): void {
-    console.log(`Playing segment with mode ${this.loopMode}: ${startTime}s to ${endTime}s`);
-    
-    const segmentDuration = endTime - startTime;
+  /**
+   * Helper: A mono buffer holding rendered samples
+   */
+  private toBuffer(samples: Float32Array, sampleRate: number): AudioBuffer {
+    const buffer = this.audioContext.createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+    return buffer;
+  }
+  
+  /**
+   * Helper: A new buffer holding a region of another
+   */
+  private copySegment(buffer: AudioBuffer, startTime: number, endTime: number): AudioBuffer {
     const sampleRate = buffer.sampleRate;
-    const segmentLength = Math.floor(segmentDuration * sampleRate);
+    const segmentLength = Math.max(1, Math.floor((endTime - startTime) * sampleRate));
     const startSample = Math.floor(startTime * sampleRate);
     
-    // Create a new buffer containing just the segment
-    const segmentBuffer = this.audioContext.createBuffer(
-      buffer.numberOfChannels,
-      segmentLength,
-      sampleRate
-    );
+    const segmentBuffer = this.audioContext.createBuffer(buffer.numberOfChannels, segmentLength, sampleRate);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      segmentBuffer.copyToChannel(buffer.getChannelData(channel).subarray(startSample, startSample + segmentLength), channel);
+    }
+    return segmentBuffer;
+  }
+  
+  /**
+   * Resample each warp segment so that it lasts its duration at the project tempo
+   * (varispeed: the pitch follows the speed change)
+   */
+  private renderWarpedSegment(buffer: AudioBuffer, segments: WarpSegment[]): AudioBuffer {
+    const sampleRate = buffer.sampleRate;
+    const totalLength = segments.reduce((sum, segment) => sum + Math.floor(segment.duration * sampleRate), 0);
+    const warpedBuffer = this.audioContext.createBuffer(buffer.numberOfChannels, Math.max(1, totalLength), sampleRate);
     
-    // Copy the segment data
     for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
       const originalData = buffer.getChannelData(channel);
-      const segmentData = segmentBuffer.getChannelData(channel);
+      const warpedData = warpedBuffer.getChannelData(channel);
+      let offset = 0;
       
-      for (let i = 0; i < segmentLength; i++) {
-        const sourceIndex = startSample + i;
-        if (sourceIndex < originalData.length) {
-          segmentData[i] = originalData[sourceIndex];
+      segments.forEach(segment => {
+        const length = Math.floor(segment.duration * sampleRate);
+        if (segment.silent) {
+          offset += length;
+          return;
+        }
+        const sourceStart = segment.sourceStart * sampleRate;
+        const step = length > 0 ? ((segment.sourceEnd - segment.sourceStart) * sampleRate) / length : 0;
+        
+        for (let i = 0; i < length; i++) {
+          // Linear interpolation between neighbouring source samples
+          const position = sourceStart + i * step;
+          const index = Math.floor(position);
+          if (index < 0 || index >= originalData.length - 1) continue;
+          const fraction = position - index;
+          warpedData[offset + i] = originalData[index] * (1 - fraction) + originalData[index + 1] * fraction;
+        }
+        offset += length;
+      });
+    }
+    
+    console.log(`Rendered warped segment: ${segments.length} segment(s), ${warpedBuffer.duration.toFixed(3)}s at project tempo`);
+    return warpedBuffer;
+  }
+  
+  /**
+   * Change a buffer's speed and pitch independently of each other
+   */
+  private stretchBuffer(buffer: AudioBuffer, speed: number, semitones: number): AudioBuffer {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+    const stretched = TimeStretcher.shift(channels, buffer.sampleRate, semitones, speed);
+    const stretchedBuffer = this.audioContext.createBuffer(buffer.numberOfChannels, stretched[0].length, buffer.sampleRate);
+    stretched.forEach((data, channel) => stretchedBuffer.copyToChannel(data, channel));
+    return stretchedBuffer;
+  }
+
+  /**
+   * Helper: Start a prepared segment (with its synth part and clicks) at an AudioContext
+   * time, fading it in (and out at its end when it plays once) when crossfades are on.
+   * Its count-in plays in the bar before.
+   */
+  private startSegment(prepared: PreparedSegment, at: number, options: LaunchOptions): ScheduledSegment {
+    const length = prepared.buffer.duration;
+    const fade = Math.min(this.crossfade, length / 2);
+    
+    const createVoice = (buffer: AudioBuffer, bus: AudioNode) => {
+      const source = this.audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.loop = this.loopMode === 'loop';
+      
+      const gain = this.audioContext.createGain();
+      source.connect(gain);
+      gain.connect(bus);
+      
+      if (fade > 0) {
+        gain.gain.setValueAtTime(0, at);
+        gain.gain.linearRampToValueAtTime(1, at + fade);
+        if (!source.loop) {
+          gain.gain.setValueAtTime(1, at + length - fade);
+          gain.gain.linearRampToValueAtTime(0, at + length);
         }
       }
+      source.start(at);
+      return { source, gain };
+    };
+    
+    const voices = [createVoice(prepared.buffer, this.referenceBus)];
+    if (prepared.shapeBuffer) voices.push(createVoice(prepared.shapeBuffer, this.shapeBus));
+    if (prepared.clickBuffer) voices.push(createVoice(prepared.clickBuffer, this.audioContext.destination));
+    
+    if (prepared.countInBuffer) {
+      const source = this.audioContext.createBufferSource();
+      source.buffer = prepared.countInBuffer;
+      const gain = this.audioContext.createGain();
+      source.connect(gain);
+      gain.connect(this.audioContext.destination);
+      source.start(at - prepared.countInBuffer.duration);
+      voices.push({ source, gain });
     }
     
-    // Create source with appropriate looping behavior
-    this.currentSource = this.audioContext.createBufferSource();
-    this.currentSource.buffer = segmentBuffer;
-    this.currentSource.loop = this.loopMode === 'loop';
+    const segment: ScheduledSegment = {
+      id: options.id,
+      source: voices[0].source,
+      voices,
+      startsAt: at,
+      duration: prepared.duration,
+      speed: this.playbackSpeed,
+      fade,
+      barLength: options.barLength
+    };
+    segment.source.addEventListener('ended', () => this.handleSegmentEnded(segment));
+    return segment;
+  }
+  
+  /**
+   * Helper: A segment finished. When it was the current one, the queued segment (already
+   * sounding) takes over and onSegmentEnd runs for one-shot playback.
+   */
+  private handleSegmentEnded(segment: ScheduledSegment): void {
+    segment.voices.forEach(voice => voice.gain.disconnect());
+    this.released = this.released.filter(released => released !== segment);
+    if (segment !== this.current) return; // replaced or stopped
     
-    // Create gain for volume control
-    this.currentGain = this.audioContext.createGain();
-    this.currentSource.connect(this.currentGain);
-    this.currentGain.connect(this.audioContext.destination);
+    this.current = this.queued;
+    this.queued = undefined;
+    if (!this.current) {
+      this.isPlaying = false;
+    }
     
-    // If mode is 'once', set up ended event
     if (this.loopMode === 'once' && this.onSegmentEnd) {
-      this.currentSource.addEventListener('ended', () => {
-        console.log('Audio segment finished - calling onSegmentEnd');
-        this.isPlaying = false;
-        if (this.onSegmentEnd) {
-          this.onSegmentEnd();
-        }
-      });
+      console.log(`Audio segment ${segment.id ?? ''} finished - calling onSegmentEnd`);
+      this.onSegmentEnd();
     }
+  }
+  
+  /**
+   * Helper: Stop a segment at a time, fading it out from there when crossfades are on.
+   * It is kept until it ends, so stopping the player can cut it short.
+   */
+  private release(segment: ScheduledSegment, at: number): void {
+    this.released.push(segment);
+    const stopAt = at + this.crossfade;
+    segment.voices.forEach(({ source, gain }) => {
+      if (this.crossfade > 0) {
+        gain.gain.cancelScheduledValues(at);
+        gain.gain.setValueAtTime(1, at);
+        gain.gain.linearRampToValueAtTime(0, stopAt);
+      }
+      source.stop(stopAt);
+    });
+  }
+  
+  private cancelQueued(): void {
+    if (!this.queued) return;
+    this.queued.voices.forEach(({ source, gain }) => {
+      source.stop();
+      source.disconnect();
+      gain.disconnect();
+    });
+    this.queued = undefined;
+  }
+  
+  /**
+   * AudioContext time of the playing segment's next bar line (its loop or end counts
+   * as one), or now when nothing is playing
+   */
+  getNextBarTime(): number {
+    const now = this.audioContext.currentTime + SCHEDULE_MARGIN;
+    const current = this.current;
+    if (!current || !this.getIsPlaying()) return now;
+    if (now <= current.startsAt) return current.startsAt;
     
-    // Start immediately
-    this.currentSource.start(0);
-    this.currentBuffer = buffer;
-    this.isPlaying = true;
+    const length = current.source.buffer!.duration;
+    const elapsed = now - current.startsAt;
+    const position = current.source.loop ? elapsed % length : Math.min(elapsed, length);
+    const bar = current.barLength ? current.barLength / current.speed : length;
+    return now + Math.min(Math.ceil(position / bar) * bar, length) - position;
+  }
+  
+  /**
+   * Play regions of a timeline from a position, each starting at its place on the
+   * AudioContext clock. The timeline clock keeps running through silent stretches.
+   */
+  async playTimeline(regions: TimelineRegion[], from: number): Promise<void> {
+    console.log(`=== NEW TIMELINE PLAYBACK (Player ${this.playerId}) from ${from.toFixed(3)}s ===`);
+    
+    this.stop();
     this.stopRequested = false;
     
-    console.log(`Segment started with mode: ${this.loopMode}`);
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+    
+    const now = this.audioContext.currentTime;
+    this.timelineGain = this.audioContext.createGain();
+    this.timelineGain.connect(this.referenceBus);
+    
+    regions
+      .filter(region => region.start + region.duration > from)
+      .forEach(region => {
+        const skipped = Math.max(0, from - region.start);
+        const source = this.audioContext.createBufferSource();
+        source.buffer = region.buffer;
+        source.connect(this.timelineGain!);
+        source.start(now + Math.max(0, region.start - from), region.offset + skipped, region.duration - skipped);
+        this.timelineSources.push(source);
+      });
+    
+    this.isPlaying = true;
+    this.timelineFrom = from;
+    this.timelineStartedAt = now;
+    console.log(`Timeline started with ${this.timelineSources.length} region(s)`);
+  }
+  
+  /**
+   * Timeline position in seconds while a timeline is playing
+   */
+  getTimelinePosition(): number {
+    if (!this.getIsPlaying()) return this.timelineFrom;
+    return this.timelineFrom + Math.max(0, this.audioContext.currentTime - this.timelineStartedAt);
   }
-
   
-  async stop(): Promise<void> {
+  private stopTimeline(): void {
+    this.timelineSources.forEach(source => {
+      source.stop();
+      source.disconnect();
+    });
+    this.timelineSources = [];
+    this.timelineGain?.disconnect();
+    this.timelineGain = undefined;
+  }
+  
+  /**
+   * Stop the playing, queued, released and timeline audio at once
+   */
+  stop(): void {
     console.log(`=== STOP REQUESTED (Player ${this.playerId}) ===`);
     
-    // Set flags immediately
     this.isPlaying = false;
     this.stopRequested = true;
     
-    // AGGRESSIVE CLEANUP: Stop ALL audio sources immediately
-    // This handles cases where multiple sources might exist
-    try {
-      // Stop and cleanup current source
-      if (this.currentSource) {
-        console.log('Stopping current source...');
-        this.currentSource.stop();
-        this.currentSource.disconnect();
-        this.currentSource = undefined;
-        console.log('Current source cleaned up');
-      }
-      
-      // Cleanup gain
-      if (this.currentGain) {
-        console.log('Disconnecting gain...');
-        this.currentGain.disconnect();
-        this.currentGain = undefined;
-        console.log('Gain cleaned up');
-      }
-      
-      // NUCLEAR OPTION: Suspend and resume audio context to kill any lingering sources
-      if (this.audioContext.state !== 'suspended') {
-        console.log('Suspending audio context for cleanup...');
-        await this.audioContext.suspend();
-        console.log('Audio context suspended');
-        // Resume immediately so it's ready for next playback
-        await new Promise(resolve => setTimeout(resolve, 10));
-        await this.audioContext.resume();
-        console.log('Audio context resumed after cleanup');
-      }
-      
-    } catch (e) {
-      console.error('Error during stop cleanup:', e);
-    }
-    
-    console.log('=== STOP COMPLETE ===');
+    const segments = [this.current, this.queued, ...this.released];
+    this.current = undefined;
+    this.queued = undefined;
+    this.released = [];
+    segments.forEach(segment => segment?.voices.forEach(({ source, gain }) => {
+      source.stop();
+      source.disconnect();
+      gain.disconnect();
+    }));
+    this.stopTimeline();
   }
   
   getIsPlaying(): boolean {
@@ -228,6 +558,33 @@ export class AudioPlayer {
     }
   }
   
+  /**
+   * Seconds of source audio played since the current segment started, wrapping around
+   * when looping
+   */
+  getPlaybackPosition(): number {
+    const current = this.current;
+    if (!this.getIsPlaying() || !current || current.duration <= 0) return 0;
+    
+    const played = Math.max(0, this.audioContext.currentTime - current.startsAt) * current.speed;
+    return current.source.loop ? played % current.duration : Math.min(played, current.duration);
+  }
+  
+  /**
+   * Speed for scene segments started from now on, from 25% to 150%. Segments end (and
+   * call onSegmentEnd) after their stretched duration.
+   */
+  setPlaybackSpeed(speed: number): void {
+    this.playbackSpeed = Math.min(MAX_PLAYBACK_SPEED, Math.max(MIN_PLAYBACK_SPEED, speed));
+  }
+  
+  /**
+   * Pitch shift in semitones for scene segments started from now on
+   */
+  setTransposition(semitones: number): void {
+    this.transposition = Math.min(MAX_TRANSPOSITION, Math.max(-MAX_TRANSPOSITION, Math.round(semitones)));
+  }
+  
   getDuration(): number {
     return this.currentBuffer?.duration || 0;
   }
@@ -235,4 +592,11 @@ export class AudioPlayer {
   clearCache(): void {
     this.audioBuffers.clear();
   }
+  
+  /**
+   * Files to use for audio paths that aren't inside the archive
+   */
+  setExternalFiles(files: Map<string, Blob>): void {
+    this.externalFiles = files;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,222 @@
+import type { Clip, Note } from './dawproject-parser';
+
+export interface ChordReading {
+  symbol: string;         // e.g. "Cmaj7/E", "G7(b9)", "Fsus2"
+  root: number;           // pitch class of the root
+  bass: number;           // pitch class of the lowest note
+  quality: string;        // e.g. "", "m", "7", "m7b5", "sus4"
+  extensions: string[];   // natural extensions, e.g. ["9", "13"]
+  alterations: string[];  // altered or omitted tones, e.g. ["b9", "#11"]
+  score: number;          // higher is a more plausible reading
+}
+
+export interface ChordAnalysis {
+  best?: ChordReading;
+  alternatives: ChordReading[]; // remaining readings, ranked
+}
+
+type Third = 'major' | 'minor' | 'sus4' | 'sus2' | 'none';
+type Fifth = 'perfect' | 'diminished' | 'augmented' | 'none';
+type Seventh = 'minor' | 'major' | 'diminished' | 'none';
+
+export class ChordSymbolAnalyzer {
+  private static readonly NOTE_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+  /**
+   * Name the chord formed by a clip's notes
+   */
+  static analyzeClip(clip: Clip): ChordAnalysis {
+    return this.analyzeNotes(clip.notes);
+  }
+
+  /**
+   * Name the chord formed by a set of notes, using the lowest key as the bass
+   */
+  static analyzeNotes(notes: Note[]): ChordAnalysis {
+    if (notes.length === 0) return { alternatives: [] };
+
+    const bass = Math.min(...notes.map(note => note.key)) % 12;
+    const pitchClasses = new Set(notes.map(note => note.key % 12));
+
+    return this.analyzePitchClasses(pitchClasses, bass);
+  }
+
+  /**
+   * Rank every root candidate of a pitch class set
+   */
+  static analyzePitchClasses(pitchClasses: Set<number>, bass: number): ChordAnalysis {
+    if (pitchClasses.size < 2) return { alternatives: [] };
+
+    const readings: ChordReading[] = [];
+    pitchClasses.forEach(root => {
+      const reading = this.readFromRoot(pitchClasses, root, bass);
+      if (reading) readings.push(reading);
+    });
+
+    readings.sort((a, b) =>
+      b.score - a.score ||
+      Number(b.root === b.bass) - Number(a.root === a.bass) ||
+      a.alterations.length - b.alterations.length
+    );
+
+    return {
+      best: readings[0],
+      alternatives: readings.slice(1)
+    };
+  }
+
+  /**
+   * Get a single-spelling note name for chord symbols
+   */
+  static getNoteName(pc: number): string {
+    return this.NOTE_NAMES[((pc % 12) + 12) % 12];
+  }
+
+  /**
+   * Interpret the set as a chord built on the given root
+   */
+  private static readFromRoot(pitchClasses: Set<number>, root: number, bass: number): ChordReading | undefined {
+    const intervals = new Set(Array.from(pitchClasses).map(pc => (pc - root + 12) % 12));
+    const has = (interval: number) => intervals.has(interval);
+
+    // Dyads only make sense as power chords
+    if (intervals.size === 2 && !has(7)) return undefined;
+
+    const extensions: string[] = [];
+    const alterations: string[] = [];
+    let score = 0;
+
+    // Third (or its suspension)
+    let third: Third = 'none';
+    if (has(4)) third = 'major';
+    else if (has(3)) third = 'minor';
+    else if (has(5)) third = 'sus4';
+    else if (has(2)) third = 'sus2';
+
+    // Fifth
+    let fifth: Fifth = 'none';
+    if (has(7)) fifth = 'perfect';
+    else if (third === 'minor' && has(6)) fifth = 'diminished';
+    else if (third === 'major' && has(8)) fifth = 'augmented';
+    else if (has(6)) fifth = 'diminished';
+
+    // Seventh
+    let seventh: Seventh = 'none';
+    if (has(10)) seventh = 'minor';
+    else if (has(11)) seventh = 'major';
+    else if (third === 'minor' && fifth === 'diminished' && has(9)) seventh = 'diminished';
+
+    // Remaining tones are extensions or alterations
+    if (has(1)) alterations.push('b9');
+    if (has(2) && third !== 'sus2') extensions.push('9');
+    if (has(3) && third === 'major') alterations.push('#9');
+    if (has(5) && third !== 'sus4') extensions.push('11');
+    if (has(6) && fifth !== 'diminished') alterations.push('#11');
+    if (has(8) && fifth !== 'augmented') alterations.push('b13');
+    if (has(9) && seventh !== 'diminished') extensions.push('13');
+    if (has(11) && seventh === 'minor') alterations.push('maj7');
+    if (fifth === 'diminished' && third !== 'minor') alterations.unshift('b5');
+
+    const isPowerChord = third === 'none' && intervals.size === 2;
+    if (third === 'none' && !isPowerChord) alterations.push('no3');
+
+    // Plausibility penalties
+    if (root !== bass) score -= 1;
+    if (third === 'sus4') score -= 0.75;
+    if (third === 'sus2') score -= 1;
+    if (third === 'none' && !isPowerChord) score -= 1.5;
+    if (fifth === 'none') score -= 0.5;
+    score -= alterations.length;
+    if (seventh === 'none') {
+      score -= 0.25 * extensions.length;
+      score -= alterations.filter(a => a === 'b9' || a === 'b13' || a === '#9').length;
+    }
+
+    const { quality, parenthesized } = this.buildQuality(third, fifth, seventh, extensions, isPowerChord);
+    const allParenthesized = [...parenthesized, ...alterations];
+
+    let symbol = this.getNoteName(root) + quality;
+    if (allParenthesized.length > 0) {
+      // Merge into an existing group: Cm(maj7,13) rather than Cm(maj7)(13)
+      symbol = symbol.endsWith(')')
+        ? `${symbol.slice(0, -1)},${allParenthesized.join(',')})`
+        : `${symbol}(${allParenthesized.join(',')})`;
+    }
+    if (root !== bass) symbol += `/${this.getNoteName(bass)}`;
+
+    return {
+      symbol,
+      root,
+      bass,
+      quality,
+      extensions,
+      alterations,
+      score
+    };
+  }
+
+  /**
+   * Helper: Build the quality suffix, folding the highest natural extension into it where conventional
+   */
+  private static buildQuality(
+    third: Third,
+    fifth: Fifth,
+    seventh: Seventh,
+    extensions: string[],
+    isPowerChord: boolean
+  ): { quality: string; parenthesized: string[] } {
+    if (isPowerChord) return { quality: '5', parenthesized: [] };
+
+    let quality: string;
+    if (third === 'minor' && fifth === 'diminished') {
+      quality = { minor: 'm7b5', major: 'dim(maj7)', diminished: 'dim7', none: 'dim' }[seventh];
+    } else if (third === 'major' && fifth === 'augmented') {
+      quality = { minor: '7#5', major: 'maj7#5', diminished: '', none: 'aug' }[seventh];
+    } else if (third === 'minor') {
+      quality = { minor: 'm7', major: 'm(maj7)', diminished: '', none: 'm' }[seventh];
+    } else if (third === 'sus4' || third === 'sus2') {
+      quality = { minor: `7${third}`, major: `maj7${third}`, diminished: '', none: third }[seventh];
+    } else {
+      quality = { minor: '7', major: 'maj7', diminished: '', none: '' }[seventh];
+    }
+
+    if (extensions.length === 0) return { quality, parenthesized: [] };
+
+    // Sevenths: the highest natural extension replaces the 7 (C13, Cm9, Cmaj9sus4...)
+    const foldsExtension = seventh !== 'none' && fifth !== 'augmented' && !quality.startsWith('m7b5') && !quality.startsWith('dim');
+    if (foldsExtension) {
+      return { quality: quality.replace('7', extensions[extensions.length - 1]), parenthesized: [] };
+    }
+    if (seventh !== 'none') {
+      return { quality, parenthesized: extensions };
+    }
+
+    // Triads: 6, 6/9, add9, add11
+    const parenthesized: string[] = [];
+    let suffix = '';
+    if (extensions.includes('13')) {
+      suffix = extensions.includes('9') ? '6/9' : '6';
+    } else if (extensions.includes('9')) {
+      suffix = 'add9';
+    }
+    if (extensions.includes('11')) {
+      if (suffix) parenthesized.push('add11');
+      else suffix = 'add11';
+    }
+
+    const isAdded = suffix.startsWith('add');
+    if (quality === 'm' && isAdded) {
+      return { quality: `m(${suffix})`, parenthesized };
+    }
+    if (quality === 'aug' || quality === 'dim') {
+      return { quality, parenthesized: [suffix, ...parenthesized] };
+    }
+    if (quality.startsWith('sus')) {
+      // Csus4(add9), C6sus4
+      return isAdded
+        ? { quality, parenthesized: [suffix, ...parenthesized] }
+        : { quality: suffix + quality, parenthesized };
+    }
+    return { quality: quality + suffix, parenthesized };
+  }
+}
@@ -0,0 +1,217 @@
+import { DAWProjectParser } from './dawproject-parser';
+import { SceneManager } from './scene-manager';
+import { PitchClassSetAnalyzer } from './pitch-class-set';
+import type { PrimeFormConvention } from './pitch-class-set';
+import { formatDiagnostic } from './diagnostics';
+import type { Diagnostic } from './diagnostics';
+
+type OutputFormat = 'table' | 'json' | 'csv';
+
+interface CliOptions {
+  format: OutputFormat;
+  convention: PrimeFormConvention;
+  verbose: boolean;
+  files: string[];
+}
+
+interface SceneReport {
+  index: number;
+  name: string;
+  referenceFile?: string;
+  referenceStart?: number;  // seconds in the source file
+  referenceEnd?: number;    // seconds in the source file
+  pitchClasses: number[];
+  normalForm: number[];
+  primeForm: number[];
+  forteNumber?: string;
+  intervalVector: number[];
+}
+
+interface FileReport {
+  file: string;
+  diagnostics: Diagnostic[];
+  scenes: SceneReport[];
+}
+
+const USAGE = `Usage: npm run analyze -- [options] <file.dawproject>...
+
+Prints every scene's reference region and shape analysis.
+
+Options:
+  --format <table|json|csv>   Output format (default: table)
+  --convention <forte|rahn>   Prime form packing convention (default: forte)
+  --verbose                   Print parser logging to stderr
+  --help                      Show this message`;
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { format: 'table', convention: 'forte', verbose: false, files: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const [flag, inlineValue] = arg.split('=', 2);
+    const value = () => inlineValue ?? args[++i];
+
+    if (flag === '--format') {
+      const format = value();
+      if (format !== 'table' && format !== 'json' && format !== 'csv') {
+        throw new Error(`Unknown format "${format}"`);
+      }
+      options.format = format;
+    } else if (flag === '--convention') {
+      const convention = value();
+      if (convention !== 'forte' && convention !== 'rahn') {
+        throw new Error(`Unknown convention "${convention}"`);
+      }
+      options.convention = convention;
+    } else if (flag === '--verbose') {
+      options.verbose = true;
+    } else if (flag.startsWith('--')) {
+      throw new Error(`Unknown option "${flag}"`);
+    } else {
+      options.files.push(arg);
+    }
+  }
+
+  if (options.files.length === 0) {
+    throw new Error('No .dawproject files given');
+  }
+  return options;
+}
+
+async function analyzeFile(file: string): Promise<FileReport> {
+  const parser = new DAWProjectParser();
+  await parser.loadFile(file);
+  const project = await parser.parseProject();
+  const sceneManager = new SceneManager(project.tracks, project.scenes);
+
+  const scenes = sceneManager.getScenes().map(scene => {
+    const pcs = scene.pitchClassSet;
+    return {
+      index: scene.index,
+      name: scene.name,
+      referenceFile: scene.referenceClip?.audioFile,
+      referenceStart: scene.referenceClip?.finalAudioStart,
+      referenceEnd: scene.referenceClip?.finalAudioEnd,
+      pitchClasses: pcs ? Array.from(pcs.pitchClasses).sort((a, b) => a - b) : [],
+      normalForm: pcs?.normalForm ?? [],
+      primeForm: pcs?.primeForm ?? [],
+      forteNumber: pcs?.name,
+      intervalVector: pcs?.interval ?? []
+    };
+  });
+
+  return { file, diagnostics: project.diagnostics, scenes };
+}
+
+/**
+ * Helper: Reference region as "start-end" seconds
+ */
+function formatRegion(scene: SceneReport): string {
+  if (scene.referenceStart === undefined || scene.referenceEnd === undefined) return '';
+  return `${scene.referenceStart.toFixed(3)}-${scene.referenceEnd.toFixed(3)}`;
+}
+
+function formatTable(reports: FileReport[]): string {
+  const headers = ['#', 'Scene', 'Reference (s)', 'Pitch classes', 'Normal', 'Prime', 'Forte', 'Vector'];
+
+  return reports.map(report => {
+    const rows = report.scenes.map(scene => [
+      String(scene.index),
+      scene.name,
+      formatRegion(scene),
+      scene.pitchClasses.length > 0 ? `{${scene.pitchClasses.join(',')}}` : '',
+      scene.normalForm.length > 0 ? `[${scene.normalForm.join(',')}]` : '',
+      scene.primeForm.length > 0 ? `(${scene.primeForm.join(',')})` : '',
+      scene.forteNumber ?? '',
+      scene.intervalVector.length > 0 ? `<${scene.intervalVector.join('')}>` : ''
+    ]);
+
+    const widths = headers.map((header, column) =>
+      Math.max(header.length, ...rows.map(row => row[column].length)));
+    const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+    return [
+      report.file,
+      formatRow(headers),
+      formatRow(widths.map(width => '-'.repeat(width))),
+      ...rows.map(formatRow)
+    ].join('\n');
+  }).join('\n\n') + '\n';
+}
+
+function formatCsv(reports: FileReport[]): string {
+  const quote = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const lines = [
+    'file,scene,name,reference_file,reference_start,reference_end,pitch_classes,normal_form,prime_form,forte_number,interval_vector'
+  ];
+
+  reports.forEach(report => {
+    report.scenes.forEach(scene => {
+      lines.push([
+        report.file,
+        String(scene.index),
+        scene.name,
+        scene.referenceFile ?? '',
+        scene.referenceStart?.toFixed(3) ?? '',
+        scene.referenceEnd?.toFixed(3) ?? '',
+        scene.pitchClasses.join(' '),
+        scene.normalForm.join(' '),
+        scene.primeForm.join(' '),
+        scene.forteNumber ?? '',
+        scene.intervalVector.join('')
+      ].map(quote).join(','));
+    });
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions;
+  try {
+    const args = process.argv.slice(2);
+    if (args.includes('--help')) {
+      process.stdout.write(`${USAGE}\n`);
+      return 0;
+    }
+    options = parseArgs(args);
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  // The parser and analyzers log progress; keep stdout clean for the report
+  console.log = options.verbose ? console.error : () => {};
+  PitchClassSetAnalyzer.setConvention(options.convention);
+
+  let failed = false;
+  const reports: FileReport[] = [];
+  for (const file of options.files) {
+    try {
+      const report = await analyzeFile(file);
+      reports.push(report);
+      if (report.diagnostics.some(diagnostic => diagnostic.severity === 'error')) failed = true;
+    } catch (error) {
+      failed = true;
+      process.stderr.write(`${file}: ${(error as Error).message}\n`);
+    }
+  }
+
+  if (options.format === 'json') {
+    process.stdout.write(JSON.stringify(reports, null, 2) + '\n');
+  } else {
+    process.stdout.write(options.format === 'csv' ? formatCsv(reports) : formatTable(reports));
+
+    reports.forEach(report => {
+      report.diagnostics.forEach(diagnostic => {
+        process.stderr.write(`${report.file}: ${formatDiagnostic(diagnostic)}\n`);
+      });
+    });
+  }
+
+  return failed ? 1 : 0;
+}
+
+main().then(code => {
+  process.exitCode = code;
+});
@@ -1,4 +1,13 @@
 import JSZip from 'jszip';
+import { TempoMap } from './tempo-map';
+import type { BarBeat, TempoPoint, TimeSignaturePoint } from './tempo-map';
+import { WarpMap } from './warp-map';
+import type { WarpMarker, WarpSegment } from './warp-map';
+import { getXmlLocation } from './diagnostics';
+import type { Diagnostic, DiagnosticCode, DiagnosticSeverity } from './diagnostics';
+import { parseXml, XmlElement, XmlParseError } from './xml';
+import { MarkerScenes } from './marker-scenes';
+import type { Marker } from './marker-scenes';
 
 export interface Note {
   time: number;
@@ -24,6 +33,23 @@ export interface Clip {
   // Calculated playback timing
   finalAudioStart?: number;     // final start position in source file
   finalAudioEnd?: number;       // final end position in source file
+  // Warping (from Warps on the nested audio clip)
+  warpMarkers?: WarpMarker[];   // nested clip time -> source seconds
+  warpSegments?: WarpSegment[]; // loop region mapped through the warp curve, for playback at project tempo
+  // Musical position (arrangement clips)
+  startPosition?: BarBeat;      // bar/beat where the clip starts
+  endPosition?: BarBeat;        // bar/beat where the clip ends
+  audioRegions?: AudioRegion[]; // audio heard on the timeline (arrangement clips)
+}
+
+/**
+ * A stretch of an audio file placed on the arrangement timeline
+ */
+export interface AudioRegion {
+  time: number;        // beats, project timeline
+  duration: number;    // beats
+  audioFile: string;
+  sourceStart: number; // seconds into the audio file at the region's start
 }
 
 export interface Track {
@@ -43,6 +69,7 @@ export interface SceneData {
   id: string;
   name: string;
   clipSlots: ClipSlot[];
+  markerRegion?: { start: number; end: number }; // beats; set on scenes derived from arrangement markers
 }
 
 export interface DAWProject {
@@ -51,14 +78,46 @@ export interface DAWProject {
   metadata: any;
   tempo?: number;
   timeSignature?: { numerator: number; denominator: number };
+  tempoMap: TempoMap;
+  diagnostics: Diagnostic[];
+  source?: DAWProjectSource;
+}
+
+/**
+ * The XML a project was read from, kept so it can be written back without losing
+ * anything the model doesn't cover
+ */
+export interface DAWProjectSource {
+  project: XmlElement;
+  metadata: XmlElement | null;
+  elements: WeakMap<object, XmlElement>; // track, scene, clip slot, clip or note -> element it was read from
 }
 
+// Track content types defined by the DAWproject schema
+const KNOWN_CONTENT_TYPES = ['audio', 'automation', 'notes', 'video', 'markers', 'tracks'];
+
 export class DAWProjectParser {
   private zip: JSZip | null = null;
+  private diagnostics: Diagnostic[] = [];
+  private elements: WeakMap<object, XmlElement> = new WeakMap();
+
+  /**
+   * Load a .dawproject archive from a browser File, raw bytes (including a Node Buffer)
+   * or, in Node, a file path
+   */
+  async loadFile(file: File | ArrayBuffer | Uint8Array | string): Promise<void> {
+    let data: File | ArrayBuffer | Uint8Array;
+    if (typeof file === 'string') {
+      // Only reachable in Node; kept out of the browser bundle
+      const fsModule = 'node:fs/promises';
+      const { readFile }: typeof import('node:fs/promises') = await import(/* @vite-ignore */ fsModule);
+      data = await readFile(file);
+    } else {
+      data = file;
+    }
 
-  async loadFile(file: File | ArrayBuffer): Promise<void> {
     const zip = new JSZip();
-    this.zip = await zip.loadAsync(file);
+    this.zip = await zip.loadAsync(data);
   }
   
   getZip(): JSZip | null {
@@ -70,168 +129,289 @@ export class DAWProjectParser {
       throw new Error('No DAWproject file loaded');
     }
 
+    this.diagnostics = [];
+    this.elements = new WeakMap();
+
     const projectXml = await this.zip.file('project.xml')?.async('text');
     if (!projectXml) {
-      throw new Error('project.xml not found in DAWproject');
+      this.report('error', 'missing-project-xml', 'project.xml not found in DAWproject archive');
+      return this.createEmptyProject();
     }
 
     const metadataXml = await this.zip.file('metadata.xml')?.async('text');
     
-    const parser = new DOMParser();
-    const projectDoc = parser.parseFromString(projectXml, 'text/xml');
-    const metadataDoc = metadataXml ? parser.parseFromString(metadataXml, 'text/xml') : null;
+    let projectDoc: XmlElement;
+    try {
+      projectDoc = parseXml(projectXml);
+    } catch (error) {
+      if (!(error instanceof XmlParseError)) throw error;
+      this.report('error', 'invalid-xml', `project.xml is not well-formed: ${error.message}`);
+      return this.createEmptyProject();
+    }
+    
+    let metadataDoc: XmlElement | null = null;
+    if (metadataXml) {
+      try {
+        metadataDoc = parseXml(metadataXml);
+      } catch (error) {
+        if (!(error instanceof XmlParseError)) throw error;
+        this.report('warning', 'invalid-xml', `metadata.xml is not well-formed and was ignored: ${error.message}`);
+      }
+    }
 
-    const tracks = this.extractTracks(projectDoc);
     const { tempo, timeSignature } = this.extractTransport(projectDoc);
-    const scenes = this.extractScenes(projectDoc, tempo || 120);
+    const tempoMap = this.extractTempoMap(projectDoc, tempo, timeSignature);
+    const tracks = this.extractTracks(projectDoc, tempoMap);
+    let scenes = this.extractScenes(projectDoc, tempoMap);
+    if (scenes.length === 0) {
+      scenes = this.deriveScenesFromMarkers(projectDoc, tracks, tempoMap);
+    }
     
     return {
       tracks,
       scenes,
       metadata: metadataDoc ? this.extractMetadata(metadataDoc) : null,
       tempo,
-      timeSignature
+      timeSignature,
+      tempoMap,
+      diagnostics: this.diagnostics,
+      source: {
+        project: projectDoc,
+        metadata: metadataDoc,
+        elements: this.elements
+      }
     };
   }
 
-  private extractTracks(doc: Document): Track[] {
+  private createEmptyProject(): DAWProject {
+    return {
+      tracks: [],
+      scenes: [],
+      metadata: null,
+      tempoMap: TempoMap.constant(120),
+      diagnostics: this.diagnostics
+    };
+  }
+
+  private extractTracks(doc: XmlElement, tempoMap: TempoMap): Track[] {
     const tracks: Track[] = [];
-    const trackElements = doc.querySelectorAll('Track');
-    const arrangement = doc.querySelector('Arrangement');
+    const trackElements = doc.findAll('Track');
+    const arrangement = doc.find('Arrangement');
     
     trackElements.forEach(trackEl => {
       const trackId = trackEl.getAttribute('id') || '';
       const trackName = trackEl.getAttribute('name') || 'Unnamed Track';
       const contentType = trackEl.getAttribute('contentType') || '';
       
+      const unknownTypes = contentType.split(/\s+/).filter(type => type && !KNOWN_CONTENT_TYPES.includes(type));
+      if (unknownTypes.length > 0) {
+        this.report('warning', 'unknown-content-type',
+          `Track "${trackName}" has unknown contentType ${unknownTypes.map(type => `"${type}"`).join(', ')}`, trackEl);
+      }
+      
       // Find clips for this track in the arrangement
-      const clips = this.extractClipsForTrack(arrangement, trackId);
+      const clips = this.extractClipsForTrack(arrangement, trackId, tempoMap);
       
-      tracks.push({
+      tracks.push(this.register({
         id: trackId,
         name: trackName,
         contentType,
         clips
-      });
+      }, trackEl));
     });
     
     return tracks;
   }
 
-  private extractClipsForTrack(arrangement: Element | null, trackId: string): Clip[] {
+  private extractClipsForTrack(arrangement: XmlElement | null, trackId: string, tempoMap: TempoMap): Clip[] {
     if (!arrangement) return [];
     
     const clips: Clip[] = [];
     
     // Find lanes for this track
-    const trackLanes = arrangement.querySelector(`Lanes[track="${trackId}"]`);
+    const trackLanes = arrangement.find('Lanes', lanesEl => lanesEl.getAttribute('track') === trackId);
     if (!trackLanes) return clips;
     
-    const clipElements = trackLanes.querySelectorAll('Clip');
+    // Only the track's own clips: clips nested inside them hold their audio
+    const clipElements = trackLanes.findAll('Clip', el => !this.hasClipAncestor(el, trackLanes));
     
     clipElements.forEach(clipEl => {
-      const time = parseFloat(clipEl.getAttribute('time') || '0');
-      const duration = parseFloat(clipEl.getAttribute('duration') || '0');
-      const playStart = parseFloat(clipEl.getAttribute('playStart') || '0');
+      const time = this.readNumber(clipEl, 'time', 0);
+      const duration = this.readNumber(clipEl, 'duration', 0);
+      const playStart = this.readNumber(clipEl, 'playStart', 0);
       const name = clipEl.getAttribute('name') || undefined;
       
       const notes = this.extractNotes(clipEl);
       
       // Look for audio file reference
-      const fileElement = clipEl.querySelector('File');
+      const fileElement = clipEl.find('File');
       const audioFile = fileElement?.getAttribute('path') || undefined;
+      if (fileElement) this.checkAudioPath(fileElement);
       
-      clips.push({
+      clips.push(this.register({
         time,
         duration,
         playStart,
         name,
         notes,
-        audioFile
-      });
+        audioFile,
+        startPosition: tempoMap.getBarBeat(time),
+        endPosition: tempoMap.getBarBeat(time + duration),
+        audioRegions: fileElement ? this.extractAudioRegions(clipEl, tempoMap) : undefined
+      }, clipEl));
     });
     
     return clips;
   }
 
-  private extractNotes(clipEl: Element): Note[] {
+  /**
+   * Place an arrangement clip's audio on the timeline: either the clip's own audio, or
+   * the audio of the clips nested in it, cut to the part of the content the clip plays.
+   * Warps and loops inside arrangement clips are not applied; audio plays at its own speed.
+   */
+  private extractAudioRegions(clipEl: XmlElement, tempoMap: TempoMap): AudioRegion[] {
+    const time = this.readNumber(clipEl, 'time', 0);
+    const duration = this.readNumber(clipEl, 'duration', 0);
+    const playStart = this.readNumber(clipEl, 'playStart', 0);
+    const regions: AudioRegion[] = [];
+    
+    // Audio directly in the clip starts at the clip's play start
+    const directFile = clipEl.child('Audio')?.child('File');
+    if (directFile) {
+      const sourceStart = clipEl.getAttribute('contentTimeUnit') === 'seconds'
+        ? playStart
+        : tempoMap.durationInSeconds(time - playStart, playStart);
+      return [{ time, duration, audioFile: directFile.getAttribute('path') || '', sourceStart }];
+    }
+    
+    // Nested clips sit in the outer clip's content time, in beats
+    const nestedClipEls = clipEl.child('Clips')?.childrenNamed('Clip') ?? [];
+    nestedClipEls.forEach(nestedEl => {
+      const fileEl = nestedEl.find('File');
+      if (!fileEl) return;
+      
+      const nestedTime = this.readNumber(nestedEl, 'time', 0);
+      const nestedEnd = nestedTime + this.readNumber(nestedEl, 'duration', 0);
+      const visibleStart = Math.max(nestedTime, playStart);
+      const visibleEnd = Math.min(nestedEnd, playStart + duration);
+      if (visibleEnd <= visibleStart) return;
+      
+      // Timeline position where the nested clip's content would start
+      const nestedTimelineStart = time + nestedTime - playStart;
+      const nestedPlayStart = this.readNumber(nestedEl, 'playStart', 0);
+      const contentStartSeconds = nestedEl.getAttribute('contentTimeUnit') === 'seconds'
+        ? nestedPlayStart
+        : tempoMap.durationInSeconds(nestedTimelineStart - nestedPlayStart, nestedPlayStart);
+      
+      regions.push({
+        time: time + visibleStart - playStart,
+        duration: visibleEnd - visibleStart,
+        audioFile: fileEl.getAttribute('path') || '',
+        sourceStart: contentStartSeconds + tempoMap.durationInSeconds(nestedTimelineStart, visibleStart - nestedTime)
+      });
+    });
+    
+    return regions;
+  }
+  
+  private hasClipAncestor(element: XmlElement, root: XmlElement): boolean {
+    for (let parent = element.parentElement; parent && parent !== root; parent = parent.parentElement) {
+      if (parent.tagName === 'Clip') return true;
+    }
+    return false;
+  }
+
+  private extractNotes(clipEl: XmlElement): Note[] {
     const notes: Note[] = [];
-    const noteElements = clipEl.querySelectorAll('Note');
+    const noteElements = clipEl.findAll('Note');
     
     noteElements.forEach(noteEl => {
-      notes.push({
-        time: parseFloat(noteEl.getAttribute('time') || '0'),
-        duration: parseFloat(noteEl.getAttribute('duration') || '0'),
-        key: parseInt(noteEl.getAttribute('key') || '0'),
-        velocity: parseFloat(noteEl.getAttribute('vel') || '0'),
-        channel: parseInt(noteEl.getAttribute('channel') || '0')
-      });
+      notes.push(this.register({
+        time: this.readNumber(noteEl, 'time', 0),
+        duration: this.readNumber(noteEl, 'duration', 0),
+        key: this.readInteger(noteEl, 'key', 0),
+        velocity: this.readNumber(noteEl, 'vel', 0),
+        channel: this.readInteger(noteEl, 'channel', 0)
+      }, noteEl));
     });
     
     return notes;
   }
 
-  private extractScenes(doc: Document, tempo: number): SceneData[] {
+  private extractScenes(doc: XmlElement, tempoMap: TempoMap): SceneData[] {
     const scenes: SceneData[] = [];
-    const sceneElements = doc.querySelectorAll('Scenes > Scene');
+    const sceneElements = doc.findAll('Scene', sceneEl => sceneEl.parentElement?.tagName === 'Scenes');
     
     sceneElements.forEach(sceneEl => {
       const sceneId = sceneEl.getAttribute('id') || '';
       const sceneName = sceneEl.getAttribute('name') || '';
       
       const clipSlots: ClipSlot[] = [];
-      const clipSlotElements = sceneEl.querySelectorAll('ClipSlot');
+      const clipSlotElements = sceneEl.findAll('ClipSlot');
       
       clipSlotElements.forEach(slotEl => {
         const trackId = slotEl.getAttribute('track') || '';
         const hasStop = slotEl.getAttribute('hasStop') === 'true';
         
         // Check if there's a clip in this slot
-        const clipEl = slotEl.querySelector('Clip');
+        const clipEl = slotEl.find('Clip');
         let clip: Clip | undefined;
         
         if (clipEl) {
-          const time = parseFloat(clipEl.getAttribute('time') || '0');
-          const duration = parseFloat(clipEl.getAttribute('duration') || '0');
-          const playStart = parseFloat(clipEl.getAttribute('playStart') || '0');
-          const loopStart = parseFloat(clipEl.getAttribute('loopStart') || '0');
-          const loopEnd = parseFloat(clipEl.getAttribute('loopEnd') || duration.toString());
+          const time = this.readNumber(clipEl, 'time', 0);
+          const duration = this.readNumber(clipEl, 'duration', 0);
+          const playStart = this.readNumber(clipEl, 'playStart', 0);
+          const loopStart = this.readNumber(clipEl, 'loopStart', 0);
+          const loopEnd = this.readNumber(clipEl, 'loopEnd', duration);
           
           // Extract notes if present
           const notes = this.extractNotes(clipEl);
           
           // Look for nested audio clips
-          const nestedClipEl = clipEl.querySelector('Clips > Clip');
+          const nestedClipEl = clipEl.find('Clip', el => el.parentElement?.tagName === 'Clips');
           let audioFile: string | undefined;
           let audioRegionStart: number | undefined;
           let audioRegionDuration: number | undefined;
           let finalAudioStart: number | undefined;
           let finalAudioEnd: number | undefined;
+          let warpMarkers: WarpMarker[] | undefined;
+          let warpSegments: WarpSegment[] | undefined;
           
           if (nestedClipEl) {
-            const fileElement = nestedClipEl.querySelector('File');
+            const fileElement = nestedClipEl.find('File');
             audioFile = fileElement?.getAttribute('path') || undefined;
+            if (fileElement) this.checkAudioPath(fileElement);
             
             // Get the audio region timing from nested clip
             const contentTimeUnit = nestedClipEl.getAttribute('contentTimeUnit');
-            if (contentTimeUnit === 'seconds') {
-              audioRegionStart = parseFloat(nestedClipEl.getAttribute('playStart') || '0');
-              audioRegionDuration = parseFloat(nestedClipEl.getAttribute('duration') || '0');
+            const warpsEl = nestedClipEl.child('Warps');
+            if (warpsEl && (warpsEl.getAttribute('contentTimeUnit') || 'seconds') === 'seconds') {
+              ({
+                warpMarkers,
+                warpSegments,
+                audioRegionStart,
+                audioRegionDuration,
+                finalAudioStart,
+                finalAudioEnd
+              } = this.mapWarpedRegion(warpsEl, nestedClipEl, time, loopStart, loopEnd, tempoMap));
+            } else if (contentTimeUnit === 'seconds') {
+              audioRegionStart = this.readNumber(nestedClipEl, 'playStart', 0);
+              audioRegionDuration = this.readNumber(nestedClipEl, 'duration', 0);
               
               // Calculate final playback timing
               // IMPORTANT: Convert beat-based loop times to seconds using tempo
               const outerLoopDuration = loopEnd - loopStart;
               
               if (outerLoopDuration > 0) {
-                // Convert loop region from beats to seconds
-                const loopStartSeconds = this.beatsToSeconds(loopStart, tempo);
-                const loopEndSeconds = this.beatsToSeconds(loopEnd, tempo);
+                // Convert loop region from beats to seconds, measured from the clip's start
+                const loopStartSeconds = tempoMap.durationInSeconds(time, loopStart);
+                const loopEndSeconds = tempoMap.durationInSeconds(time, loopEnd);
                 
                 // Use the loop region from the outer clip (converted to seconds)
                 finalAudioStart = audioRegionStart + loopStartSeconds;
                 finalAudioEnd = audioRegionStart + loopEndSeconds;
                 
-                console.log(`Audio timing calculation (tempo: ${tempo} BPM):
+                console.log(`Audio timing calculation (tempo: ${tempoMap.getTempoAt(time)} BPM${tempoMap.isConstant() ? '' : ', tempo map'}):
                   - Audio region: ${audioRegionStart}s + ${audioRegionDuration}s in source file
                   - Outer loop: ${loopStart} to ${loopEnd} beats (${loopStartSeconds.toFixed(3)}s to ${loopEndSeconds.toFixed(3)}s)
                   - Final playback: ${finalAudioStart.toFixed(3)}s to ${finalAudioEnd.toFixed(3)}s`);
@@ -257,38 +437,67 @@ export class DAWProjectParser {
             loopStart,
             loopEnd,
             finalAudioStart,
-            finalAudioEnd
+            finalAudioEnd,
+            warpMarkers,
+            warpSegments
           };
+          this.register(clip, clipEl);
+          this.checkLoopBounds(clip, clipEl);
         }
         
-        clipSlots.push({
+        clipSlots.push(this.register({
           trackId,
           clip,
           hasStop
-        });
+        }, slotEl));
       });
       
-      scenes.push({
+      scenes.push(this.register({
         id: sceneId,
         name: sceneName,
         clipSlots
-      });
+      }, sceneEl));
     });
     
     return scenes;
   }
   
-  private extractTransport(doc: Document): { tempo?: number; timeSignature?: { numerator: number; denominator: number } } {
-    const tempoEl = doc.querySelector('Tempo');
-    const timeSignatureEl = doc.querySelector('TimeSignature');
+  /**
+   * For projects without launcher scenes: one scene per marker-to-marker region of the
+   * arrangement, with clips cut from the arrangement clips in that region
+   */
+  private deriveScenesFromMarkers(doc: XmlElement, tracks: Track[], tempoMap: TempoMap): SceneData[] {
+    const markersEl = doc.find('Arrangement')?.child('Markers');
+    if (!markersEl) return [];
+    
+    const inSeconds = markersEl.getAttribute('timeUnit') === 'seconds';
+    const markers: Marker[] = markersEl.childrenNamed('Marker').map(markerEl => {
+      const time = this.readNumber(markerEl, 'time', 0);
+      return { time: inSeconds ? tempoMap.secondsToBeats(time) : time, name: markerEl.getAttribute('name') || '' };
+    });
     
-    const tempo = tempoEl ? parseFloat(tempoEl.getAttribute('value') || '120') : undefined;
+    // The last marker's region runs to the end of the last arrangement clip
+    const arrangementEnd = Math.max(0, ...tracks.flatMap(track => track.clips.map(clip => clip.time + clip.duration)));
+    const scenes = MarkerScenes.derive(tracks, markers, arrangementEnd, tempoMap);
+    
+    if (scenes.length > 0) {
+      this.report('info', 'scenes-from-markers',
+        `No launcher scenes; derived ${scenes.length} scene(s) from arrangement markers`, markersEl);
+    }
+    return scenes;
+  }
+  
+  private extractTransport(doc: XmlElement): { tempo?: number; timeSignature?: { numerator: number; denominator: number } } {
+    const tempoEl = doc.find('Tempo');
+    const timeSignatureEl = doc.find('TimeSignature');
+    
+    const tempo = tempoEl ? this.readNumber(tempoEl, 'value', 120) : undefined;
     
     let timeSignature: { numerator: number; denominator: number } | undefined;
     if (timeSignatureEl) {
       timeSignature = {
-        numerator: parseInt(timeSignatureEl.getAttribute('numerator') || '4'),
-        denominator: parseInt(timeSignatureEl.getAttribute('denominator') || '4')
+        numerator: this.readInteger(timeSignatureEl, 'numerator', 4),
+        denominator: this.readInteger(timeSignatureEl, 'denominator', 4)
       };
     }
     
@@ -297,17 +506,244 @@ export class DAWProjectParser {
     return { tempo, timeSignature };
   }
   
-  private beatsToSeconds(beats: number, tempo: number): number {
-    // Convert beats to seconds using BPM
-    // At 110 BPM: 1 beat = 60/110 seconds ≈ 0.545 seconds
-    return beats * (60 / tempo);
+  /**
+   * Map the outer clip's beat-based loop region through the nested clip's warp markers
+   * into source-file seconds, split at every marker so it can be played at project tempo
+   */
+  private mapWarpedRegion(
+    warpsEl: XmlElement,
+    nestedClipEl: XmlElement,
+    clipTime: number,
+    loopStart: number,
+    loopEnd: number,
+    tempoMap: TempoMap
+  ): {
+    warpMarkers: WarpMarker[];
+    warpSegments: WarpSegment[];
+    audioRegionStart: number;
+    audioRegionDuration: number;
+    finalAudioStart: number;
+    finalAudioEnd: number;
+  } {
+    const warpTimeInSeconds = warpsEl.getAttribute('timeUnit') === 'seconds';
+    const warpMarkers: WarpMarker[] = warpsEl.childrenNamed('Warp').map(warpEl => ({
+      time: this.readNumber(warpEl, 'time', 0),
+      contentTime: this.readNumber(warpEl, 'contentTime', 0)
+    }));
+    const warpMap = new WarpMap(warpMarkers);
+    
+    const nestedTime = this.readNumber(nestedClipEl, 'time', 0);
+    const nestedDuration = this.readNumber(nestedClipEl, 'duration', 0);
+    const nestedPlayStart = this.readNumber(nestedClipEl, 'playStart', 0);
+    
+    // Outer clip beats <-> nested clip (warp) time
+    const toWarpTime = (beats: number) => warpTimeInSeconds
+      ? tempoMap.durationInSeconds(clipTime + nestedTime, beats - nestedTime) + nestedPlayStart
+      : beats - nestedTime + nestedPlayStart;
+    const toOuterBeats = (warpTime: number) => warpTimeInSeconds
+      ? tempoMap.secondsToBeats(tempoMap.beatsToSeconds(clipTime + nestedTime) + warpTime - nestedPlayStart) - clipTime
+      : warpTime - nestedPlayStart + nestedTime;
+    
+    const regionStart = loopEnd > loopStart ? loopStart : nestedTime;
+    const regionEnd = loopEnd > loopStart ? loopEnd : nestedTime + nestedDuration;
+    
+    const breakpoints = [
+      regionStart,
+      ...warpMap
+        .getMarkerTimesBetween(toWarpTime(regionStart), toWarpTime(regionEnd))
+        .map(toOuterBeats),
+      regionEnd
+    ];
+    
+    const warpSegments: WarpSegment[] = [];
+    for (let i = 0; i < breakpoints.length - 1; i++) {
+      warpSegments.push({
+        sourceStart: warpMap.toContentTime(toWarpTime(breakpoints[i])),
+        sourceEnd: warpMap.toContentTime(toWarpTime(breakpoints[i + 1])),
+        duration: tempoMap.durationInSeconds(clipTime + breakpoints[i], breakpoints[i + 1] - breakpoints[i])
+      });
+    }
+    
+    const audioRegionStart = warpMap.toContentTime(toWarpTime(nestedTime));
+    const finalAudioStart = warpSegments[0].sourceStart;
+    const finalAudioEnd = warpSegments[warpSegments.length - 1].sourceEnd;
+    
+    console.log(`Audio timing calculation (warped, ${warpMarkers.length} markers):
+      - Outer loop: ${regionStart} to ${regionEnd} beats
+      - Final playback: ${finalAudioStart.toFixed(3)}s to ${finalAudioEnd.toFixed(3)}s in ${warpSegments.length} segment(s)`);
+    
+    return {
+      warpMarkers,
+      warpSegments,
+      audioRegionStart,
+      audioRegionDuration: warpMap.toContentTime(toWarpTime(nestedTime + nestedDuration)) - audioRegionStart,
+      finalAudioStart,
+      finalAudioEnd
+    };
+  }
+  
+  /**
+   * Read tempo and time-signature automation from the arrangement into a tempo map,
+   * falling back to the transport's fixed values, and to 120 BPM in 4/4 without them
+   */
+  private extractTempoMap(
+    doc: XmlElement,
+    transportTempo?: number,
+    timeSignature?: { numerator: number; denominator: number }
+  ): TempoMap {
+    const tempo = transportTempo || 120;
+    const tempoParameterId = doc.find('Tempo', el => el.parentElement?.tagName === 'Transport')?.getAttribute('id');
+    const timeSignatureParameterId = doc.find('TimeSignature', el => el.parentElement?.tagName === 'Transport')?.getAttribute('id');
+    
+    const tempoPoints: TempoPoint[] = [];
+    this.findAutomation(doc, 'TempoAutomation', tempoParameterId).forEach(automationEl => {
+      automationEl.findAll('RealPoint').forEach(pointEl => {
+        tempoPoints.push({
+          time: this.readNumber(pointEl, 'time', 0),
+          bpm: this.readNumber(pointEl, 'value', tempo),
+          interpolation: pointEl.getAttribute('interpolation') === 'linear' ? 'linear' : 'hold'
+        });
+      });
+    });
+    
+    const timeSignaturePoints: TimeSignaturePoint[] = [];
+    this.findAutomation(doc, 'TimeSignatureAutomation', timeSignatureParameterId).forEach(automationEl => {
+      automationEl.findAll('TimeSignaturePoint').forEach(pointEl => {
+        timeSignaturePoints.push({
+          time: this.readNumber(pointEl, 'time', 0),
+          numerator: this.readInteger(pointEl, 'numerator', 4),
+          denominator: this.readInteger(pointEl, 'denominator', 4)
+        });
+      });
+    });
+    
+    if (tempoPoints.length === 0) {
+      if (!transportTempo) {
+        this.report('warning', 'default-tempo-map', 'No tempo in the transport or its automation; assuming 120 BPM');
+      }
+      tempoPoints.push({ time: 0, bpm: tempo, interpolation: 'hold' });
+    }
+    if (timeSignaturePoints.length === 0) {
+      if (!timeSignature) {
+        this.report('info', 'default-tempo-map', 'No time signature in the transport or its automation; assuming 4/4');
+      }
+      timeSignaturePoints.push({ time: 0, numerator: timeSignature?.numerator || 4, denominator: timeSignature?.denominator || 4 });
+    }
+    
+    return new TempoMap(tempoPoints, timeSignaturePoints);
+  }
+  
+  /**
+   * Helper: Automation elements for a transport parameter, either as dedicated
+   * arrangement elements or as generic Points lanes targeting the parameter
+   */
+  private findAutomation(doc: XmlElement, tagName: string, parameterId?: string | null): XmlElement[] {
+    const arrangement = doc.find('Arrangement');
+    if (!arrangement) return [];
+    
+    const automation = arrangement.findAll(tagName);
+    if (parameterId) {
+      arrangement.findAll('Points').forEach(pointsEl => {
+        const target = pointsEl.child('Target');
+        if (target?.getAttribute('parameter') === parameterId) {
+          automation.push(pointsEl);
+        }
+      });
+    }
+    return automation;
+  }
+  
+  /**
+   * Report audio files that are neither inside the archive nor marked as external
+   */
+  private checkAudioPath(fileEl: XmlElement): void {
+    const path = fileEl.getAttribute('path');
+    if (!path) {
+      this.report('warning', 'unresolved-audio-path', 'Audio file reference has no path', fileEl);
+    } else if (fileEl.getAttribute('external') === 'true') {
+      this.report('info', 'unresolved-audio-path', `Audio file "${path}" is external and not bundled in the archive`, fileEl);
+    } else if (!this.zip?.file(path)) {
+      this.report('error', 'unresolved-audio-path', `Audio file "${path}" not found in DAWproject archive`, fileEl);
+    }
+  }
+  
+  /**
+   * Report loop regions that are empty, or that play outside the clip's notes or audio region
+   */
+  private checkLoopBounds(clip: Clip, clipEl: XmlElement): void {
+    const { loopStart, loopEnd } = clip;
+    if (loopStart === undefined || loopEnd === undefined) return;
+    
+    if (loopEnd <= loopStart) {
+      this.report('warning', 'clip-outside-loop-bounds',
+        `Clip loop region is empty (loopStart ${loopStart}, loopEnd ${loopEnd})`, clipEl);
+      return;
+    }
+    
+    if (clip.notes.length > 0 && !clip.notes.some(note => note.time < loopEnd && note.time + note.duration > loopStart)) {
+      this.report('warning', 'clip-outside-loop-bounds',
+        `All ${clip.notes.length} notes lie outside the loop region ${loopStart}-${loopEnd}`, clipEl);
+    }
+    
+    if (clip.audioRegionStart !== undefined && clip.audioRegionDuration !== undefined &&
+        clip.finalAudioStart !== undefined && clip.finalAudioEnd !== undefined) {
+      const regionEnd = clip.audioRegionStart + clip.audioRegionDuration;
+      const tolerance = 1e-3;
+      if (clip.finalAudioStart < clip.audioRegionStart - tolerance || clip.finalAudioEnd > regionEnd + tolerance) {
+        this.report('warning', 'clip-outside-loop-bounds',
+          `Loop plays ${clip.finalAudioStart.toFixed(3)}s-${clip.finalAudioEnd.toFixed(3)}s, outside the audio region ` +
+          `${clip.audioRegionStart.toFixed(3)}s-${regionEnd.toFixed(3)}s`, clipEl);
+      }
+    }
+  }
+  
+  /**
+   * Helper: Read a numeric attribute, reporting values that are present but not numbers
+   */
+  private readNumber(el: XmlElement, attribute: string, fallback: number): number {
+    const raw = el.getAttribute(attribute);
+    if (raw === null || raw === '') return fallback;
+    
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      this.report('warning', 'unparseable-number',
+        `Attribute ${attribute}="${raw}" is not a number, using ${fallback}`, el);
+      return fallback;
+    }
+    return value;
+  }
+  
+  private readInteger(el: XmlElement, attribute: string, fallback: number): number {
+    const value = this.readNumber(el, attribute, fallback);
+    if (!Number.isInteger(value)) {
+      this.report('warning', 'unparseable-number',
+        `Attribute ${attribute}="${el.getAttribute(attribute)}" is not an integer, rounding`, el);
+      return Math.round(value);
+    }
+    return value;
+  }
+  
+  /**
+   * Helper: Remember which element a model object was read from
+   */
+  private register<T extends object>(model: T, el: XmlElement): T {
+    this.elements.set(model, el);
+    return model;
+  }
+  
+  private report(severity: DiagnosticSeverity, code: DiagnosticCode, message: string, el?: XmlElement): void {
+    this.diagnostics.push({
+      severity,
+      code,
+      message,
+      location: el ? getXmlLocation(el) : undefined
+    });
   }
   
-  private extractMetadata(doc: Document): any {
+  private extractMetadata(doc: XmlElement): any {
     const metadata: any = {};
-    const root = doc.documentElement;
     
-    for (const child of root.children) {
+    for (const child of doc.children) {
       metadata[child.tagName] = child.textContent;
     }
     
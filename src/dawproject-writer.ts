@@ -0,0 +1,334 @@
+import JSZip from 'jszip';
+import type { Clip, ClipSlot, DAWProject, Note, SceneData, Track } from './dawproject-parser';
+import { serializeXml, XmlElement } from './xml';
+
+export class DAWProjectWriter {
+  private elements: WeakMap<object, XmlElement> = new WeakMap();
+  private nextId: number = 0;
+
+  /**
+   * Write a project as a .dawproject archive. Projects read by DAWProjectParser are
+   * written by updating the XML they were read from, so elements and attributes the
+   * model doesn't cover survive the round trip. Audio and other files are copied from
+   * the source archive.
+   */
+  async write(project: DAWProject, sourceZip?: JSZip | null): Promise<Uint8Array> {
+    const zip = new JSZip();
+
+    sourceZip?.forEach((path, file) => {
+      if (!file.dir && path !== 'project.xml' && path !== 'metadata.xml') {
+        zip.file(path, file.async('uint8array'));
+      }
+    });
+
+    const { projectXml, metadataXml } = this.serialize(project);
+    zip.file('project.xml', projectXml);
+    zip.file('metadata.xml', metadataXml);
+
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Build project.xml and metadata.xml for a project. Afterwards the project's source
+   * points at the written XML, so writing again updates it rather than starting over.
+   */
+  serialize(project: DAWProject): { projectXml: string; metadataXml: string } {
+    const source = project.source;
+    this.elements = source?.elements ?? new WeakMap();
+
+    const root = source?.project ?? XmlElement.create('Project', { version: '1.0' });
+    this.nextId = this.findMaxId(root) + 1;
+    if (!source) {
+      root.appendChild(XmlElement.create('Application', { name: 'Shape shift', version: '1.0' }));
+    }
+
+    this.writeTransport(root, project);
+    this.writeTracks(root, project.tracks);
+    this.writeArrangement(root, project.tracks);
+    // Scenes derived from markers exist only in the model
+    this.writeScenes(root, project.scenes.filter(scene => !scene.markerRegion));
+
+    const metadata = this.writeMetadata(source?.metadata ?? null, project.metadata);
+
+    project.source = { project: root, metadata, elements: this.elements };
+
+    return {
+      projectXml: serializeXml(root),
+      metadataXml: serializeXml(metadata)
+    };
+  }
+
+  private writeTransport(root: XmlElement, project: DAWProject): void {
+    if (project.tempo === undefined && !project.timeSignature) return;
+
+    const transport = this.ensureChild(root, 'Transport');
+    if (project.tempo !== undefined) {
+      const tempoEl = this.ensureChild(transport, 'Tempo', { unit: 'bpm' }, true);
+      this.setNumber(tempoEl, 'value', project.tempo);
+    }
+    if (project.timeSignature) {
+      const timeSignatureEl = this.ensureChild(transport, 'TimeSignature', {}, true);
+      this.setNumber(timeSignatureEl, 'numerator', project.timeSignature.numerator);
+      this.setNumber(timeSignatureEl, 'denominator', project.timeSignature.denominator);
+    }
+  }
+
+  /**
+   * Rename and retype existing tracks and add new ones. Tracks missing from the model
+   * are kept, since channels and sends elsewhere may refer to them.
+   */
+  private writeTracks(root: XmlElement, tracks: Track[]): void {
+    const structure = this.ensureChild(root, 'Structure');
+
+    tracks.forEach(track => {
+      let trackEl = this.elements.get(track);
+      if (!trackEl) {
+        trackEl = structure.appendChild(XmlElement.create('Track', {
+          contentType: track.contentType,
+          loaded: 'true',
+          id: track.id || this.createId(),
+          name: track.name
+        }));
+        trackEl.appendChild(XmlElement.create('Channel', {
+          audioChannels: '2',
+          role: 'regular',
+          id: this.createId()
+        }));
+        this.elements.set(track, trackEl);
+      }
+
+      trackEl.setAttribute('name', track.name);
+      trackEl.setAttribute('contentType', track.contentType);
+    });
+  }
+
+  private writeArrangement(root: XmlElement, tracks: Track[]): void {
+    tracks.forEach(track => {
+      const trackId = this.elements.get(track)?.getAttribute('id') || track.id;
+      let trackLanes = root.find('Arrangement')?.find('Lanes', el => el.getAttribute('track') === trackId) ?? null;
+      if (!trackLanes && track.clips.length === 0) return;
+
+      if (!trackLanes) {
+        const arrangement = this.ensureChild(root, 'Arrangement', {}, true);
+        const lanes = this.ensureChild(arrangement, 'Lanes', { timeUnit: 'beats' }, true);
+        trackLanes = lanes.appendChild(XmlElement.create('Lanes', { track: trackId, id: this.createId() }));
+      }
+      const clipsEl = this.ensureChild(trackLanes, 'Clips', {}, true);
+
+      track.clips.forEach(clip => {
+        const clipEl = this.elements.get(clip);
+        if (clipEl) {
+          this.updateClip(clipEl, clip);
+        } else {
+          clipsEl.appendChild(this.createClip(clip));
+        }
+      });
+
+      // Drop arrangement clips that were removed from the model
+      const kept = new Set(track.clips.map(clip => this.elements.get(clip)));
+      clipsEl.childrenNamed('Clip')
+        .filter(clipEl => !kept.has(clipEl))
+        .forEach(clipEl => clipsEl.removeChild(clipEl));
+    });
+  }
+
+  private writeScenes(root: XmlElement, scenes: SceneData[]): void {
+    if (scenes.length === 0 && !root.child('Scenes')) return;
+
+    const scenesEl = this.ensureChild(root, 'Scenes');
+    const sceneEls = scenes.map(scene => {
+      let sceneEl = this.elements.get(scene);
+      if (!sceneEl) {
+        sceneEl = XmlElement.create('Scene', { id: scene.id || this.createId(), name: scene.name });
+        this.elements.set(scene, sceneEl);
+      }
+      sceneEl.setAttribute('name', scene.name);
+
+      const lanesEl = this.ensureChild(sceneEl, 'Lanes', {}, true);
+      const slotEls = scene.clipSlots.map(slot => this.writeClipSlot(slot));
+      this.replaceChildren(lanesEl, 'ClipSlot', slotEls);
+
+      return sceneEl;
+    });
+
+    this.replaceChildren(scenesEl, 'Scene', sceneEls);
+  }
+
+  private writeClipSlot(slot: ClipSlot): XmlElement {
+    let slotEl = this.elements.get(slot);
+    if (!slotEl) {
+      slotEl = XmlElement.create('ClipSlot', { hasStop: String(slot.hasStop), track: slot.trackId, id: this.createId() });
+      this.elements.set(slot, slotEl);
+    }
+    slotEl.setAttribute('hasStop', String(slot.hasStop));
+    slotEl.setAttribute('track', slot.trackId);
+
+    const existingClipEl = slotEl.child('Clip');
+    if (!slot.clip) {
+      if (existingClipEl) slotEl.removeChild(existingClipEl);
+      return slotEl;
+    }
+
+    const clipEl = this.elements.get(slot.clip);
+    if (clipEl) {
+      this.updateClip(clipEl, slot.clip);
+      if (clipEl.parentElement !== slotEl) {
+        // The clip was moved here from another slot
+        clipEl.parentElement?.removeChild(clipEl);
+        if (existingClipEl) slotEl.removeChild(existingClipEl);
+        slotEl.appendChild(clipEl);
+      }
+    } else {
+      if (existingClipEl) slotEl.removeChild(existingClipEl);
+      slotEl.appendChild(this.createClip(slot.clip));
+    }
+
+    return slotEl;
+  }
+
+  private updateClip(clipEl: XmlElement, clip: Clip): void {
+    this.setNumber(clipEl, 'time', clip.time);
+    this.setNumber(clipEl, 'duration', clip.duration);
+    this.setNumber(clipEl, 'playStart', clip.playStart);
+    // The parser fills in an absent loop region as the whole clip; don't write it back
+    if (clip.loopStart !== undefined) this.setNumber(clipEl, 'loopStart', clip.loopStart, 0);
+    if (clip.loopEnd !== undefined) this.setNumber(clipEl, 'loopEnd', clip.loopEnd, clip.duration);
+    if (clip.name !== undefined) clipEl.setAttribute('name', clip.name);
+
+    if (clip.audioFile) {
+      const fileEl = clipEl.find('File');
+      if (fileEl) {
+        fileEl.setAttribute('path', clip.audioFile);
+      } else {
+        clipEl.appendChild(this.createAudioContent(clip));
+      }
+    }
+
+    this.writeNotes(clipEl, clip.notes);
+  }
+
+  /**
+   * Update notes in place, add new ones to the clip's own Notes element and
+   * drop notes that were removed from the model
+   */
+  private writeNotes(clipEl: XmlElement, notes: Note[]): void {
+    let notesEl = clipEl.child('Notes');
+
+    notes.forEach(note => {
+      const noteEl = this.elements.get(note);
+      if (noteEl) {
+        this.writeNote(noteEl, note);
+        return;
+      }
+
+      if (!notesEl) notesEl = clipEl.appendChild(XmlElement.create('Notes', { id: this.createId() }));
+      const created = notesEl.appendChild(XmlElement.create('Note'));
+      this.writeNote(created, note);
+      this.elements.set(note, created);
+    });
+
+    if (notesEl) {
+      const kept = new Set(notes.map(note => this.elements.get(note)));
+      notesEl.childrenNamed('Note')
+        .filter(noteEl => !kept.has(noteEl))
+        .forEach(noteEl => notesEl!.removeChild(noteEl));
+    }
+  }
+
+  private writeNote(noteEl: XmlElement, note: Note): void {
+    this.setNumber(noteEl, 'time', note.time);
+    this.setNumber(noteEl, 'duration', note.duration);
+    this.setNumber(noteEl, 'channel', note.channel);
+    this.setNumber(noteEl, 'key', note.key);
+    this.setNumber(noteEl, 'vel', note.velocity);
+  }
+
+  private createClip(clip: Clip): XmlElement {
+    const clipEl = XmlElement.create('Clip', {
+      time: String(clip.time),
+      duration: String(clip.duration),
+      playStart: String(clip.playStart)
+    });
+    if (clip.loopStart !== undefined) clipEl.setAttribute('loopStart', String(clip.loopStart));
+    if (clip.loopEnd !== undefined) clipEl.setAttribute('loopEnd', String(clip.loopEnd));
+    this.elements.set(clip, clipEl);
+    this.updateClip(clipEl, clip);
+    return clipEl;
+  }
+
+  /**
+   * Helper: Nested audio clip referencing the clip's audio file, in source seconds
+   */
+  private createAudioContent(clip: Clip): XmlElement {
+    const clipsEl = XmlElement.create('Clips', { id: this.createId() });
+    const audioClipEl = clipsEl.appendChild(XmlElement.create('Clip', {
+      time: '0',
+      duration: String(clip.audioRegionDuration ?? clip.duration),
+      contentTimeUnit: 'seconds',
+      playStart: String(clip.audioRegionStart ?? 0)
+    }));
+    const audioEl = audioClipEl.appendChild(XmlElement.create('Audio', { id: this.createId() }));
+    audioEl.appendChild(XmlElement.create('File', { path: clip.audioFile ?? '' }));
+    return clipsEl;
+  }
+
+  private writeMetadata(metadataEl: XmlElement | null, metadata: any): XmlElement {
+    const root = metadataEl ?? XmlElement.create('MetaData');
+    if (metadata && typeof metadata === 'object') {
+      Object.entries(metadata).forEach(([tagName, value]) => {
+        const child = root.child(tagName) ?? root.appendChild(XmlElement.create(tagName));
+        if (child.children.length === 0) child.text = value === null || value === undefined ? '' : String(value);
+      });
+    }
+    return root;
+  }
+
+  /**
+   * Helper: Set a numeric attribute, keeping the original text when the value is unchanged
+   * and leaving it out when it's absent and the value is the default
+   */
+  private setNumber(el: XmlElement, attribute: string, value: number, defaultValue?: number): void {
+    const current = el.getAttribute(attribute);
+    if (current === null && value === defaultValue) return;
+    if (current !== null && Number(current) === value) return;
+    el.setAttribute(attribute, String(value));
+  }
+
+  private ensureChild(parent: XmlElement, tagName: string, attributes: Record<string, string> = {}, withId: boolean = false): XmlElement {
+    const existing = parent.child(tagName);
+    if (existing) return existing;
+
+    const created = XmlElement.create(tagName, attributes);
+    if (withId) created.setAttribute('id', this.createId());
+    return parent.appendChild(created);
+  }
+
+  /**
+   * Helper: Replace all children with a tag name by the given elements, in order,
+   * after any other children
+   */
+  private replaceChildren(parent: XmlElement, tagName: string, elements: XmlElement[]): void {
+    const others = parent.children.filter(child => child.tagName !== tagName);
+    parent.children.filter(child => child.tagName === tagName).forEach(child => parent.removeChild(child));
+    parent.children = others;
+    elements.forEach(element => {
+      element.parentElement?.removeChild(element);
+      parent.appendChild(element);
+    });
+  }
+
+  private findMaxId(root: XmlElement): number {
+    let max = -1;
+    const visit = (el: XmlElement) => {
+      const match = /^id(\d+)$/.exec(el.getAttribute('id') || '');
+      if (match) max = Math.max(max, parseInt(match[1]));
+      el.children.forEach(visit);
+    };
+    visit(root);
+    return max;
+  }
+
+  private createId(): string {
+    return `id${this.nextId++}`;
+  }
+}
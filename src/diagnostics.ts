@@ -0,0 +1,50 @@
+import type { XmlElement } from './xml';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'invalid-archive'
+  | 'missing-project-xml'
+  | 'invalid-xml'
+  | 'unknown-content-type'
+  | 'unresolved-audio-path'
+  | 'clip-outside-loop-bounds'
+  | 'unparseable-number'
+  | 'scenes-from-markers'
+  | 'default-tempo-map';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  location?: string; // XML path, e.g. Project/Scenes/Scene[@id="id50"]/Lanes/ClipSlot[@id="id52"]/Clip
+}
+
+/**
+ * Describe an element's position in its document as a readable XML path,
+ * using ids where the element has one and sibling indices otherwise
+ */
+export function getXmlLocation(element: XmlElement): string {
+  const steps: string[] = [];
+  let current: XmlElement | null = element;
+
+  while (current) {
+    const id = current.getAttribute('id');
+    let step = current.tagName;
+    if (id) {
+      step += `[@id="${id}"]`;
+    } else if (current.parentElement) {
+      const siblings = current.parentElement.childrenNamed(current.tagName);
+      if (siblings.length > 1) step += `[${siblings.indexOf(current) + 1}]`;
+    }
+    steps.unshift(step);
+    current = current.parentElement;
+  }
+
+  return steps.join('/');
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const location = diagnostic.location ? ` at ${diagnostic.location}` : '';
+  return `${diagnostic.severity.toUpperCase()} [${diagnostic.code}] ${diagnostic.message}${location}`;
+}
@@ -1,11 +1,38 @@
 // Functional reactive event system for Shape shift
 
+import type { PrimeFormConvention } from "./pitch-class-set";
+import { DEFAULT_SLICE_GRID } from "./harmonic-slices";
+import {
+  MAX_PLAYBACK_SPEED,
+  MAX_TRANSPOSITION,
+  MIN_PLAYBACK_SPEED,
+} from "./time-stretch";
+import type { SynthPattern } from "./shape-synth";
+
+export type LaunchQuantization = "none" | "bar";
+
 export type AppState = {
   currentSceneIndex: number;
   isAutoMode: boolean;
   isPlaying: boolean;
   totalScenes: number;
   projectLoaded: boolean;
+  primeFormConvention: PrimeFormConvention;
+  sliceGrid: number; // beats
+  isEditMode: boolean;
+  editOctave: number; // octave of the keyboard's C while editing, C4 = MIDI 60
+  undoDepth: number; // shape edits that can be undone
+  excludedShapeLayers: string[]; // shape track ids left out of the combined analysis
+  isArrangementMode: boolean; // playing the arrangement timeline instead of scenes
+  playbackSpeed: number; // reference audio speed in scenes, 1 = original, pitch kept
+  transposition: number; // semitones the scene audio and analysis are moved by
+  launchQuantization: LaunchQuantization; // when a scene switched to while playing starts
+  crossfade: number; // seconds scenes fade in and out over
+  synthPattern: SynthPattern; // how the synth plays the shape along with the reference
+  referenceGain: number; // 0 to 1
+  shapeGain: number; // 0 to 1
+  metronome: boolean; // click along with scenes
+  countIn: boolean; // a bar of clicks before a scene starts
 };
 
 export type AppEvent =
@@ -16,13 +43,32 @@ export type AppEvent =
   | { type: "PLAY_PAUSE" }
   | { type: "AUDIO_STARTED" }
   | { type: "AUDIO_STOPPED" }
-  | { type: "AUTO_ADVANCE" };
+  | { type: "AUTO_ADVANCE" }
+  | { type: "CONVENTION_SET"; convention: PrimeFormConvention }
+  | { type: "SLICE_GRID_SET"; grid: number }
+  | { type: "EDIT_MODE_TOGGLE" }
+  | { type: "EDIT_OCTAVE_SET"; octave: number }
+  | { type: "SHAPE_EDITED"; undoDepth: number }
+  | { type: "TRACK_ROLES_CHANGED"; totalScenes: number }
+  | { type: "SHAPE_LAYER_TOGGLE"; trackId: string }
+  | { type: "ARRANGEMENT_MODE_TOGGLE" }
+  | { type: "PLAYBACK_SPEED_SET"; speed: number }
+  | { type: "TRANSPOSITION_SET"; semitones: number }
+  | { type: "LAUNCH_QUANTIZATION_SET"; quantization: LaunchQuantization }
+  | { type: "CROSSFADE_SET"; seconds: number }
+  | { type: "SYNTH_PATTERN_SET"; pattern: SynthPattern }
+  | { type: "MIX_GAIN_SET"; channel: "reference" | "shape"; gain: number }
+  | { type: "METRONOME_TOGGLE" }
+  | { type: "COUNT_IN_TOGGLE" };
 
 export type AppEffect =
   | { type: "LOAD_SCENE_AUDIO"; sceneIndex: number }
   | { type: "UPDATE_UI" }
   | { type: "STOP_AUDIO" }
-  | { type: "ADVANCE_SCENE" };
+  | { type: "ADVANCE_SCENE" }
+  | { type: "REANALYZE_SCENES" }
+  | { type: "PLAY_ARRANGEMENT" }
+  | { type: "UPDATE_MIX" };
 
 type EffectHandler = (effect: AppEffect, state: AppState) => void;
 type Subscriber = (state: AppState) => void;
@@ -85,9 +131,14 @@ export class EventSystem {
           projectLoaded: true,
           totalScenes: event.totalScenes,
           currentSceneIndex: 1,
+          isEditMode: false,
+          undoDepth: 0,
+          excludedShapeLayers: [],
+          isArrangementMode: false,
         };
 
       case "SCENE_NAVIGATE": {
+        if (state.isArrangementMode) return state;
         const newIndex = state.currentSceneIndex + event.direction;
         if (newIndex >= 1 && newIndex <= state.totalScenes) {
           return {
@@ -144,6 +195,128 @@ export class EventSystem {
         };
       }
 
+      case "CONVENTION_SET":
+        if (event.convention === state.primeFormConvention) return state;
+        return {
+          ...state,
+          primeFormConvention: event.convention,
+        };
+
+      case "SLICE_GRID_SET":
+        if (event.grid === state.sliceGrid) return state;
+        return {
+          ...state,
+          sliceGrid: event.grid,
+        };
+
+      case "PLAYBACK_SPEED_SET": {
+        const speed = Math.min(
+          MAX_PLAYBACK_SPEED,
+          Math.max(MIN_PLAYBACK_SPEED, event.speed),
+        );
+        if (speed === state.playbackSpeed) return state;
+        return {
+          ...state,
+          playbackSpeed: speed,
+        };
+      }
+
+      case "TRANSPOSITION_SET": {
+        const transposition = Math.min(
+          MAX_TRANSPOSITION,
+          Math.max(-MAX_TRANSPOSITION, Math.round(event.semitones)),
+        );
+        if (transposition === state.transposition) return state;
+        return {
+          ...state,
+          transposition,
+        };
+      }
+
+      case "LAUNCH_QUANTIZATION_SET":
+        return {
+          ...state,
+          launchQuantization: event.quantization,
+        };
+
+      case "CROSSFADE_SET":
+        return {
+          ...state,
+          crossfade: Math.max(0, event.seconds),
+        };
+
+      case "SYNTH_PATTERN_SET":
+        if (event.pattern === state.synthPattern) return state;
+        return {
+          ...state,
+          synthPattern: event.pattern,
+        };
+
+      case "MIX_GAIN_SET": {
+        const gain = Math.min(1, Math.max(0, event.gain));
+        return event.channel === "reference"
+          ? { ...state, referenceGain: gain }
+          : { ...state, shapeGain: gain };
+      }
+
+      case "METRONOME_TOGGLE":
+        return {
+          ...state,
+          metronome: !state.metronome,
+        };
+
+      case "COUNT_IN_TOGGLE":
+        return {
+          ...state,
+          countIn: !state.countIn,
+        };
+
+      case "EDIT_MODE_TOGGLE":
+        return {
+          ...state,
+          isEditMode: !state.isEditMode,
+        };
+
+      case "EDIT_OCTAVE_SET":
+        if (event.octave === state.editOctave) return state;
+        return {
+          ...state,
+          editOctave: event.octave,
+        };
+
+      case "SHAPE_EDITED":
+        return {
+          ...state,
+          undoDepth: event.undoDepth,
+        };
+
+      case "TRACK_ROLES_CHANGED":
+        return {
+          ...state,
+          totalScenes: event.totalScenes,
+          currentSceneIndex: Math.max(
+            1,
+            Math.min(state.currentSceneIndex, event.totalScenes),
+          ),
+          excludedShapeLayers: [],
+        };
+
+      case "ARRANGEMENT_MODE_TOGGLE":
+        return {
+          ...state,
+          isArrangementMode: !state.isArrangementMode,
+          isPlaying: false,
+          isEditMode: false,
+        };
+
+      case "SHAPE_LAYER_TOGGLE":
+        return {
+          ...state,
+          excludedShapeLayers: state.excludedShapeLayers.includes(event.trackId)
+            ? state.excludedShapeLayers.filter((id) => id !== event.trackId)
+            : [...state.excludedShapeLayers, event.trackId],
+        };
+
       default:
         return state;
     }
@@ -170,9 +343,14 @@ export class EventSystem {
       });
     }
 
-    // Scene change effects
-    if (oldState.currentSceneIndex !== newState.currentSceneIndex) {
-      effects.push({ type: "STOP_AUDIO" });
+    // Scene change effects: a quantized launch lets the playing scene finish its bar
+    if (
+      oldState.currentSceneIndex !== newState.currentSceneIndex &&
+      event.type !== "AUTO_ADVANCE"
+    ) {
+      if (!(newState.isPlaying && newState.launchQuantization === "bar")) {
+        effects.push({ type: "STOP_AUDIO" });
+      }
       effects.push({
         type: "LOAD_SCENE_AUDIO",
         sceneIndex: newState.currentSceneIndex,
@@ -190,10 +368,17 @@ export class EventSystem {
       }
     }
 
+    // Arrangement mode effects: playback restarts from the play button
+    if (event.type === "ARRANGEMENT_MODE_TOGGLE") {
+      effects.push({ type: "STOP_AUDIO" });
+    }
+
     // Play/pause effects
     if (event.type === "PLAY_PAUSE") {
       if (oldState.isPlaying) {
         effects.push({ type: "STOP_AUDIO" });
+      } else if (newState.isArrangementMode) {
+        effects.push({ type: "PLAY_ARRANGEMENT" });
       } else {
         effects.push({
           type: "LOAD_SCENE_AUDIO",
@@ -202,9 +387,67 @@ export class EventSystem {
       }
     }
 
-    // Auto advance effects
-    if (event.type === "AUTO_ADVANCE") {
+    // Track role effects: the scene's clips may have changed
+    if (
+      event.type === "TRACK_ROLES_CHANGED" &&
+      oldState.currentSceneIndex === newState.currentSceneIndex
+    ) {
+      effects.push({ type: "STOP_AUDIO" });
+      if (newState.isPlaying) {
+        effects.push(
+          newState.isArrangementMode
+            ? { type: "PLAY_ARRANGEMENT" }
+            : {
+                type: "LOAD_SCENE_AUDIO",
+                sceneIndex: newState.currentSceneIndex,
+              },
+        );
+      }
+    }
+
+    // Speed, transposition, synth and metronome effects: restart the scene's audio with them
+    if (
+      (oldState.playbackSpeed !== newState.playbackSpeed ||
+        oldState.transposition !== newState.transposition ||
+        oldState.synthPattern !== newState.synthPattern ||
+        oldState.metronome !== newState.metronome) &&
+      newState.isPlaying &&
+      !newState.isArrangementMode
+    ) {
+      effects.push({ type: "STOP_AUDIO" });
+      effects.push({
+        type: "LOAD_SCENE_AUDIO",
+        sceneIndex: newState.currentSceneIndex,
+      });
+    }
+
+    // Auto advance effects: the next scene's audio is already scheduled to follow,
+    // so it isn't stopped; loading it queues the scene after
+    if (event.type === "AUTO_ADVANCE" && newState.isAutoMode) {
       effects.push({ type: "ADVANCE_SCENE" });
+      effects.push({
+        type: "LOAD_SCENE_AUDIO",
+        sceneIndex: newState.currentSceneIndex,
+      });
+    }
+
+    // Mix effects
+    if (
+      oldState.referenceGain !== newState.referenceGain ||
+      oldState.shapeGain !== newState.shapeGain
+    ) {
+      effects.push({ type: "UPDATE_MIX" });
+    }
+
+    // Analysis convention and shape edit effects
+    if (
+      oldState.primeFormConvention !== newState.primeFormConvention ||
+      oldState.sliceGrid !== newState.sliceGrid ||
+      oldState.transposition !== newState.transposition ||
+      event.type === "SHAPE_EDITED" ||
+      event.type === "SHAPE_LAYER_TOGGLE"
+    ) {
+      effects.push({ type: "REANALYZE_SCENES" });
     }
 
     return effects;
@@ -218,4 +461,20 @@ export const eventSystem = new EventSystem({
   isPlaying: false,
   totalScenes: 0,
   projectLoaded: false,
+  primeFormConvention: "forte",
+  sliceGrid: DEFAULT_SLICE_GRID,
+  isEditMode: false,
+  editOctave: 4,
+  undoDepth: 0,
+  excludedShapeLayers: [],
+  isArrangementMode: false,
+  playbackSpeed: 1,
+  transposition: 0,
+  launchQuantization: "none",
+  crossfade: 0,
+  synthPattern: "off",
+  referenceGain: 1,
+  shapeGain: 0.8,
+  metronome: false,
+  countIn: false,
 });
@@ -0,0 +1,164 @@
+import type JSZip from 'jszip';
+import type { DAWProject } from './dawproject-parser';
+
+/**
+ * A file the user picked, with its path relative to the picked folder
+ */
+export interface PickedFile {
+  path: string;
+  file: File;
+}
+
+/**
+ * The parts of the File System Access API the directory picker uses, which the
+ * TypeScript DOM library doesn't declare without its async-iterable typings
+ */
+interface DirectoryPickerWindow {
+  showDirectoryPicker?: () => Promise<FileSystemDirectoryHandle>;
+}
+
+interface IterableDirectoryHandle extends FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemFileHandle | FileSystemDirectoryHandle>;
+}
+
+const DB_NAME = 'shape-shift';
+const STORE_NAME = 'external-audio';
+
+export class ExternalAudio {
+  /**
+   * Audio paths the project refers to that aren't inside its archive, such as
+   * files saved with external="true"
+   */
+  static findMissing(project: DAWProject, zip: JSZip | null): string[] {
+    const paths = new Set<string>();
+    project.scenes.forEach(scene => scene.clipSlots.forEach(slot => {
+      if (slot.clip?.audioFile) paths.add(slot.clip.audioFile);
+    }));
+    project.tracks.forEach(track => track.clips.forEach(clip => {
+      clip.audioRegions?.forEach(region => paths.add(region.audioFile));
+    }));
+
+    return Array.from(paths).filter(path => path && !zip?.file(path));
+  }
+
+  /**
+   * Match referenced paths to picked files: the file sharing the most trailing path
+   * segments wins, so a matching relative path beats a matching filename alone
+   */
+  static match(paths: string[], picked: PickedFile[]): Map<string, File> {
+    const matches = new Map<string, File>();
+
+    paths.forEach(path => {
+      const segments = this.splitPath(path);
+      let best: { file: File; score: number } | undefined;
+
+      picked.forEach(({ path: pickedPath, file }) => {
+        const pickedSegments = this.splitPath(pickedPath);
+        let score = 0;
+        while (
+          score < segments.length &&
+          score < pickedSegments.length &&
+          segments[segments.length - 1 - score] === pickedSegments[pickedSegments.length - 1 - score]
+        ) {
+          score++;
+        }
+        if (score > 0 && (!best || score > best.score)) {
+          best = { file, score };
+        }
+      });
+
+      if (best) matches.set(path, best.file);
+    });
+
+    return matches;
+  }
+
+  /**
+   * Ask for a folder with the directory picker where the browser has one
+   */
+  static async pickDirectory(): Promise<PickedFile[] | undefined> {
+    const pickerWindow = window as Window & DirectoryPickerWindow;
+    if (!pickerWindow.showDirectoryPicker) return undefined;
+
+    const directory = await pickerWindow.showDirectoryPicker();
+    const files: PickedFile[] = [];
+    const walk = async (handle: FileSystemDirectoryHandle, prefix: string) => {
+      for await (const entry of (handle as IterableDirectoryHandle).values()) {
+        if (entry.kind === 'file') {
+          files.push({ path: prefix + entry.name, file: await entry.getFile() });
+        } else {
+          await walk(entry, `${prefix}${entry.name}/`);
+        }
+      }
+    };
+    await walk(directory, '');
+    return files;
+  }
+
+  /**
+   * Files chosen with a file input, using their folder-relative path when a folder was chosen
+   */
+  static fromFileList(fileList: FileList): PickedFile[] {
+    return Array.from(fileList).map(file => ({
+      path: file.webkitRelativePath || file.name,
+      file
+    }));
+  }
+
+  static supportsDirectoryPicker(): boolean {
+    return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+  }
+
+  /**
+   * Files remembered for a project, by referenced path
+   */
+  static async load(projectHash: string): Promise<Map<string, File>> {
+    try {
+      const db = await this.openDatabase();
+      const stored = await this.request<Record<string, File> | undefined>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(projectHash)
+      );
+      db.close();
+      return new Map(Object.entries(stored ?? {}));
+    } catch (error) {
+      console.warn('Could not read remembered external audio:', error);
+      return new Map();
+    }
+  }
+
+  static async save(projectHash: string, files: Map<string, File>): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      await this.request(
+        db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(Object.fromEntries(files), projectHash)
+      );
+      db.close();
+    } catch (error) {
+      console.warn('Could not remember external audio:', error);
+    }
+  }
+
+  private static splitPath(path: string): string[] {
+    return path
+      .replace(/\\/g, '/')
+      .split('/')
+      .filter(segment => segment && segment !== '.')
+      .map(segment => segment.toLowerCase());
+  }
+
+  /**
+   * Helper: IndexedDB with promises
+   */
+  private static openDatabase(): Promise<IDBDatabase> {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    return this.request(request);
+  }
+
+  private static request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
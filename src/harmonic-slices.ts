@@ -0,0 +1,101 @@
+import type { Clip, Note } from './dawproject-parser';
+import { PitchClassSetAnalyzer } from './pitch-class-set';
+import type { PitchClassSet } from './pitch-class-set';
+import { ChordSymbolAnalyzer } from './chord-symbol';
+import type { ChordAnalysis } from './chord-symbol';
+import { VoicingAnalyzer } from './voicing';
+import type { Voicing } from './voicing';
+
+export interface HarmonicSlice {
+  start: number; // beats, clip content time
+  end: number;   // beats, clip content time
+  notes: Note[]; // notes sounding throughout the slice
+  pitchClassSet: PitchClassSet;
+  chord: ChordAnalysis;
+  voicing: Voicing;
+}
+
+export const DEFAULT_SLICE_GRID = 0.25; // beats
+
+export class HarmonicSlicer {
+  /**
+   * Split a clip's notes into verticalities: a new slice starts whenever a note
+   * starts or stops, after snapping onsets and ends to the beat grid
+   */
+  static sliceClip(clip: Clip, grid: number = DEFAULT_SLICE_GRID): HarmonicSlice[] {
+    const { start: regionStart, end: regionEnd } = this.getRegion(clip);
+    const snap = (beats: number) => grid > 0 ? Math.round(beats / grid) * grid : beats;
+
+    const snapped = clip.notes
+      .map(note => ({ note, start: snap(note.time), end: snap(note.time + note.duration) }))
+      .filter(({ start, end }) => end > start && end > regionStart && start < regionEnd);
+
+    const boundaries = Array.from(new Set([
+      regionStart,
+      regionEnd,
+      ...snapped.flatMap(({ start, end }) => [start, end])
+    ]))
+      .filter(time => time >= regionStart && time <= regionEnd)
+      .sort((a, b) => a - b);
+
+    const slices: HarmonicSlice[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const start = boundaries[i];
+      const end = boundaries[i + 1];
+      const notes = snapped
+        .filter(entry => entry.start <= start && entry.end >= end)
+        .map(entry => entry.note);
+
+      // Rests don't form a slice
+      if (notes.length === 0) continue;
+
+      // Merge with the previous slice when the same keys keep sounding
+      const previous = slices[slices.length - 1];
+      if (previous && previous.end === start && this.sameKeys(previous.notes, notes)) {
+        previous.end = end;
+        continue;
+      }
+
+      const chord = ChordSymbolAnalyzer.analyzeNotes(notes);
+      slices.push({
+        start,
+        end,
+        notes,
+        pitchClassSet: PitchClassSetAnalyzer.analyze(notes.map(note => note.key)),
+        chord,
+        voicing: VoicingAnalyzer.analyzeNotes(notes, chord.best?.root)!
+      });
+    }
+
+    return slices;
+  }
+
+  /**
+   * Find the slice sounding at a given number of beats since the clip was launched,
+   * wrapping around the clip's loop region
+   */
+  static getSliceIndexAt(clip: Clip, slices: HarmonicSlice[], elapsedBeats: number): number {
+    const { start, end } = this.getRegion(clip);
+    const length = end - start;
+    if (length <= 0 || slices.length === 0) return -1;
+
+    const position = start + (((elapsedBeats % length) + length) % length);
+    return slices.findIndex(slice => position >= slice.start && position < slice.end);
+  }
+
+  /**
+   * The part of the clip that plays, in clip content time
+   */
+  static getRegion(clip: Clip): { start: number; end: number } {
+    if (clip.loopStart !== undefined && clip.loopEnd !== undefined && clip.loopEnd > clip.loopStart) {
+      return { start: clip.loopStart, end: clip.loopEnd };
+    }
+    return { start: 0, end: clip.duration };
+  }
+
+  private static sameKeys(a: Note[], b: Note[]): boolean {
+    const keysA = a.map(note => note.key).sort((x, y) => x - y).join(',');
+    const keysB = b.map(note => note.key).sort((x, y) => x - y).join(',');
+    return keysA === keysB;
+  }
+}
@@ -0,0 +1,245 @@
+import type { Note } from './dawproject-parser';
+import { ChordSymbolAnalyzer } from './chord-symbol';
+import type { Scene } from './scene-manager';
+
+export interface Key {
+  tonic: number;
+  mode: 'major' | 'minor';
+}
+
+export interface KeyEstimate {
+  key: Key;
+  correlation: number;
+}
+
+export interface RomanNumeral {
+  key: Key;
+  numeral: string;    // reading in the local key, e.g. "II65"
+  secondary?: string; // secondary-function reading for chromatic chords, e.g. "V65/V"
+}
+
+export interface KeyAnalysis {
+  globalKey?: KeyEstimate;
+  sceneKeys: (Key | undefined)[];         // local key per scene, in scene order
+  romanNumerals: (RomanNumeral | undefined)[];
+}
+
+// Krumhansl-Kessler key profiles, starting on the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Scale degrees available in each mode (minor includes the raised leading tone)
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const MINOR_SCALE = [0, 2, 3, 5, 7, 8, 10, 11];
+
+const MAJOR_DEGREES = ['I', 'bII', 'II', 'bIII', 'III', 'IV', '#IV', 'V', 'bVI', 'VI', 'bVII', 'VII'];
+// In minor the leading-tone chord is vii°, so the subtonic is written bVII
+const MINOR_DEGREES = ['I', 'bII', 'II', 'III', '#III', 'IV', '#IV', 'V', 'VI', '#VI', 'bVII', 'VII'];
+
+// Cost of changing key between consecutive scenes, plus a smaller cost per step on the circle of fifths
+const MODULATION_PENALTY = 0.3;
+const FIFTHS_DISTANCE_PENALTY = 0.05;
+
+export class KeyAnalyzer {
+  /**
+   * Estimate the global key, the local key of every scene (allowing modulations)
+   * and a Roman numeral for every scene's chord
+   */
+  static analyzeScenes(scenes: Scene[]): KeyAnalysis {
+    const distributions = scenes.map(scene => this.getDistribution(scene.shapeNotes));
+
+    const total = new Array(12).fill(0);
+    distributions.forEach(distribution => distribution?.forEach((weight, pc) => total[pc] += weight));
+    const globalKey = total.some(weight => weight > 0) ? this.estimateKey(total) : undefined;
+
+    const sceneKeys = this.trackKeys(distributions);
+    const romanNumerals = scenes.map((scene, i) => {
+      const key = sceneKeys[i];
+      const reading = scene.chord?.best;
+      if (!key || !reading || !scene.pitchClassSet) return undefined;
+      return this.getRomanNumeral(scene.pitchClassSet.pitchClasses, reading.root, reading.bass, key);
+    });
+
+    return { globalKey, sceneKeys, romanNumerals };
+  }
+
+  /**
+   * Best matching key for a pitch-class weight distribution
+   */
+  static estimateKey(distribution: number[]): KeyEstimate {
+    let best: KeyEstimate = { key: { tonic: 0, mode: 'major' }, correlation: -Infinity };
+    this.getAllKeys().forEach(key => {
+      const correlation = this.correlate(distribution, key);
+      if (correlation > best.correlation) best = { key, correlation };
+    });
+    return best;
+  }
+
+  /**
+   * Roman numeral of a chord in a key, with figured-bass inversion symbols
+   */
+  static getRomanNumeral(pitchClasses: Set<number>, root: number, bass: number, key: Key): RomanNumeral {
+    const has = (interval: number) => pitchClasses.has((root + interval) % 12);
+    const degree = (root - key.tonic + 12) % 12;
+    const degreeNames = key.mode === 'major' ? MAJOR_DEGREES : MINOR_DEGREES;
+
+    const isMajor = has(4);
+    const isMinor = !isMajor && has(3);
+    const isDiminished = isMinor && has(6) && !has(7);
+    const isAugmented = isMajor && has(8) && !has(7);
+    const isDiminishedSeventh = isDiminished && has(9) && !has(10);
+    const hasSeventh = has(10) || has(11) || isDiminishedSeventh;
+
+    const figure = this.getFigure(pitchClasses, root, bass, hasSeventh);
+    const base = isMinor ? degreeNames[degree].toLowerCase() : degreeNames[degree];
+    let quality = '';
+    if (isDiminished) quality = isDiminishedSeventh || !hasSeventh ? '°' : 'ø';
+    else if (isAugmented) quality = '+';
+    else if (isMajor && has(11) && hasSeventh) quality = 'maj';
+
+    const numeral = `${base}${quality}${figure}`;
+
+    // Chromatic dominant-type chords also read as secondary functions of a diatonic degree
+    let secondary: string | undefined;
+    if (!this.isDiatonic(pitchClasses, key)) {
+      const isDominant = isMajor && !isAugmented && (!hasSeventh || has(10));
+      const target = isDominant ? (degree + 5) % 12 : isDiminished ? (degree + 1) % 12 : undefined;
+      const targetNumeral = target !== undefined ? this.getDiatonicTriadNumeral(target, key) : undefined;
+      if (targetNumeral && target !== 0) {
+        secondary = isDominant
+          ? `V${figure}/${targetNumeral}`
+          : `vii${quality}${figure}/${targetNumeral}`;
+      }
+    }
+
+    return { key, numeral, secondary };
+  }
+
+  static formatKey(key: Key): string {
+    return `${ChordSymbolAnalyzer.getNoteName(key.tonic)} ${key.mode}`;
+  }
+
+  /**
+   * Viterbi path through the 24 keys over the scene sequence, penalizing key changes
+   */
+  private static trackKeys(distributions: (number[] | undefined)[]): (Key | undefined)[] {
+    if (!distributions.some(distribution => distribution)) return distributions.map(() => undefined);
+
+    const keys = this.getAllKeys();
+    const emission = (distribution: number[] | undefined, key: Key) =>
+      distribution ? this.correlate(distribution, key) : 0;
+
+    let scores = keys.map(key => emission(distributions[0], key));
+    const backPointers: number[][] = [];
+
+    for (let t = 1; t < distributions.length; t++) {
+      const pointers: number[] = [];
+      scores = keys.map((key, k) => {
+        let bestScore = -Infinity;
+        let bestPrevious = 0;
+        keys.forEach((previous, p) => {
+          const score = scores[p] - (p === k ? 0 : this.getModulationCost(previous, key));
+          if (score > bestScore) {
+            bestScore = score;
+            bestPrevious = p;
+          }
+        });
+        pointers.push(bestPrevious);
+        return bestScore + emission(distributions[t], key);
+      });
+      backPointers.push(pointers);
+    }
+
+    const path: number[] = [scores.indexOf(Math.max(...scores))];
+    for (let t = backPointers.length - 1; t >= 0; t--) {
+      path.unshift(backPointers[t][path[0]]);
+    }
+
+    return path.map(k => keys[k]);
+  }
+
+  private static getModulationCost(from: Key, to: Key): number {
+    // Compare relative majors so that relative keys sit at the same point on the circle
+    const fromMajor = from.mode === 'major' ? from.tonic : (from.tonic + 3) % 12;
+    const toMajor = to.mode === 'major' ? to.tonic : (to.tonic + 3) % 12;
+    const fifths = (((toMajor - fromMajor) * 7) % 12 + 12) % 12;
+    return MODULATION_PENALTY + FIFTHS_DISTANCE_PENALTY * Math.min(fifths, 12 - fifths);
+  }
+
+  /**
+   * Helper: Duration-weighted pitch-class distribution of a set of notes
+   */
+  private static getDistribution(notes: Note[]): number[] | undefined {
+    if (notes.length === 0) return undefined;
+
+    const distribution = new Array(12).fill(0);
+    notes.forEach(note => {
+      distribution[note.key % 12] += note.duration > 0 ? note.duration : 1;
+    });
+    return distribution;
+  }
+
+  /**
+   * Helper: Pearson correlation between a distribution and a rotated key profile
+   */
+  private static correlate(distribution: number[], key: Key): number {
+    const profile = key.mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE;
+    const rotated = distribution.map((_, pc) => profile[(pc - key.tonic + 12) % 12]);
+
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const meanX = mean(distribution);
+    const meanY = mean(rotated);
+
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let pc = 0; pc < 12; pc++) {
+      const dx = distribution[pc] - meanX;
+      const dy = rotated[pc] - meanY;
+      covariance += dx * dy;
+      varianceX += dx * dx;
+      varianceY += dy * dy;
+    }
+
+    if (varianceX === 0 || varianceY === 0) return 0;
+    return covariance / Math.sqrt(varianceX * varianceY);
+  }
+
+  private static getFigure(pitchClasses: Set<number>, root: number, bass: number, hasSeventh: boolean): string {
+    const bassInterval = (bass - root + 12) % 12;
+    const has = (interval: number) => pitchClasses.has((root + interval) % 12);
+
+    if (bassInterval === 0) return hasSeventh ? '7' : '';
+    if ((bassInterval === 3 || bassInterval === 4) && (has(3) || has(4))) return hasSeventh ? '65' : '6';
+    if (bassInterval >= 6 && bassInterval <= 8) return hasSeventh ? '43' : '64';
+    if (hasSeventh && bassInterval >= 9) return '42';
+    return hasSeventh ? '7' : '';
+  }
+
+  private static isDiatonic(pitchClasses: Set<number>, key: Key): boolean {
+    const scale = key.mode === 'major' ? MAJOR_SCALE : MINOR_SCALE;
+    return Array.from(pitchClasses).every(pc => scale.includes((pc - key.tonic + 12) % 12));
+  }
+
+  /**
+   * Helper: Numeral of the diatonic triad on a scale degree, if it can be tonicized
+   */
+  private static getDiatonicTriadNumeral(degree: number, key: Key): string | undefined {
+    const scale = key.mode === 'major' ? MAJOR_SCALE : [0, 2, 3, 5, 7, 8, 10];
+    if (!scale.includes(degree)) return undefined;
+
+    const third = scale.includes((degree + 4) % 12) ? 'major' : 'minor';
+    if (!scale.includes((degree + 7) % 12)) return undefined; // diminished triads are not tonicized
+
+    const name = (key.mode === 'major' ? MAJOR_DEGREES : MINOR_DEGREES)[degree];
+    return third === 'major' ? name : name.toLowerCase();
+  }
+
+  private static getAllKeys(): Key[] {
+    const keys: Key[] = [];
+    for (let tonic = 0; tonic < 12; tonic++) {
+      keys.push({ tonic, mode: 'major' }, { tonic, mode: 'minor' });
+    }
+    return keys;
+  }
+}
@@ -1,17 +1,52 @@
 import "./style.css";
 import { DAWProjectParser } from "./dawproject-parser";
+import type { Clip, DAWProject, Note } from "./dawproject-parser";
+import { DAWProjectWriter } from "./dawproject-writer";
+import { ShapeEditor } from "./shape-editor";
+import type { Diagnostic } from "./diagnostics";
 import { PitchClassSetAnalyzer } from "./pitch-class-set";
+import type { PrimeFormConvention } from "./pitch-class-set";
+import { PitchClassSetVerifier } from "./pitch-class-set-verification";
+import { ScoreImportVerifier } from "./score-import-verification";
+import { VoicingAnalyzer } from "./voicing";
 import { SceneManager } from "./scene-manager";
+import { TRACK_ROLES, TrackRoles } from "./track-roles";
+import type { TrackRole, TrackRoleMap } from "./track-roles";
 import type { Scene } from "./scene-manager";
+import type { Voicing } from "./voicing";
+import type { SceneRelation } from "./transformations";
+import { KeyAnalyzer } from "./key-analysis";
+import { HarmonicSlicer } from "./harmonic-slices";
+import type { HarmonicSlice } from "./harmonic-slices";
+import { TempoMap } from "./tempo-map";
 import { AudioPlayer } from "./audio-player";
+import {
+  MAX_PLAYBACK_SPEED,
+  MAX_TRANSPOSITION,
+  MIN_PLAYBACK_SPEED,
+} from "./time-stretch";
+import type { TimelineRegion } from "./audio-player";
+import { Arrangement } from "./arrangement";
+import { ExternalAudio } from "./external-audio";
+import { ScoreImporter } from "./score-import";
+import { ShapeSynth } from "./shape-synth";
+import type { SynthPattern } from "./shape-synth";
+import { Metronome } from "./metronome";
+import type { Click } from "./metronome";
+import type { PickedFile } from "./external-audio";
 import { eventSystem } from "./event-system";
-import type { AppState } from "./event-system";
+import type { AppState, LaunchQuantization } from "./event-system";
 import JSZip from "jszip";
 
 const parser = new DAWProjectParser();
 const audioPlayer = new AudioPlayer();
 let sceneManager: SceneManager | null = null;
 let projectZip: JSZip | null = null;
+let currentProject: DAWProject | null = null;
+let projectFileName: string = "project.dawproject";
+
+// Shape edits made by clicking keys, with undo
+const shapeEditor = new ShapeEditor();
 
 // Audio loading state to prevent overlaps
 let currentAudioRequestId: string | null = null;
@@ -23,6 +58,31 @@ let navigationInProgress: boolean = false;
 // Keyboard octave toggle
 let showTwoOctaves: boolean = false;
 
+// Harmonic slice currently shown on the keyboard, and the scene it belongs to
+let currentSliceIndex: number = 0;
+let sliceSceneIndex: number = 0;
+
+// Project tempo map for converting playback position to beats
+let projectTempoMap: TempoMap = TempoMap.constant(120);
+
+// Problems found while loading the current project
+let projectDiagnostics: Diagnostic[] = [];
+
+// Track roles of the current project, remembered by the file's hash
+let projectHash: string = "";
+let trackRoles: TrackRoleMap = {};
+
+// Audio files referenced outside the archive, and the files the user picked for them
+let missingAudioFiles: string[] = [];
+let externalAudioFiles: Map<string, File> = new Map();
+
+// Arrangement playthrough: beat position where playback starts or was paused
+let arrangement: Arrangement | null = null;
+let arrangementPosition: number = 0;
+let arrangementPlaying: boolean = false;
+let arrangementScrubbing: boolean = false;
+let arrangementShapeKey: string = "";
+
 // Register effect handlers for the event system
 eventSystem.registerEffectHandler("UPDATE_UI", (_, state) => {
   updateUI(state);
@@ -44,20 +104,18 @@ eventSystem.registerEffectHandler("LOAD_SCENE_AUDIO", (effect, state) => {
         console.log("Audio already loading, will be cancelled by new request");
       }
 
-      setTimeout(() => {
-        if (currentAudioRequestId === requestId) {
-          loadSceneAudio(scene, state, requestId);
-        } else {
-          console.log(`Audio request ${requestId} cancelled before execution`);
-        }
-      }, 100); // Reduced delay
+      loadSceneAudio(scene, state, requestId);
     }
   }
 });
 
-eventSystem.registerEffectHandler("STOP_AUDIO", async (_, _state) => {
+eventSystem.registerEffectHandler("STOP_AUDIO", (_, _state) => {
   console.log("Stopping audio via effect system");
-  await audioPlayer.stop();
+  if (arrangementPlaying) {
+    arrangementPosition = getArrangementBeats();
+    arrangementPlaying = false;
+  }
+  audioPlayer.stop();
   // Don't cancel pending requests here - let them be managed by LOAD_SCENE_AUDIO
   // Don't dispatch AUDIO_STOPPED here - let the loadSceneAudio function handle it
 });
@@ -68,19 +126,87 @@ eventSystem.registerEffectHandler("ADVANCE_SCENE", (_, state) => {
   updateUI(state);
 });
 
+eventSystem.registerEffectHandler("PLAY_ARRANGEMENT", () => {
+  playArrangement();
+});
+
+eventSystem.registerEffectHandler("UPDATE_MIX", (_, state) => {
+  audioPlayer.setMix(state.referenceGain, state.shapeGain);
+});
+
+eventSystem.registerEffectHandler("REANALYZE_SCENES", (_, state) => {
+  PitchClassSetAnalyzer.setConvention(state.primeFormConvention);
+  sceneManager?.setSliceGrid(state.sliceGrid);
+  sceneManager?.setExcludedLayers(state.excludedShapeLayers);
+  sceneManager?.setTransposition(state.transposition);
+  sceneManager?.reanalyze();
+  updateUI(state);
+});
+
 // Subscribe to state changes for debugging
 eventSystem.subscribe((state) => {
   console.log("State updated:", state);
 });
 
-async function loadDAWProject(file: File) {
+async function loadDAWProject(file: File, audioFile?: File) {
   try {
-    await parser.loadFile(file);
-    projectZip = parser.getZip();
-    const project = await parser.parseProject();
+    let project: DAWProject;
+    if (ScoreImporter.isScoreFile(file.name)) {
+      // MIDI and MusicXML files become a project with the chosen audio as reference
+      ({ project, zip: projectZip } = await ScoreImporter.load(
+        file,
+        audioFile,
+      ));
+    } else {
+      await parser.loadFile(file);
+      projectZip = parser.getZip();
+      project = await parser.parseProject();
+    }
+
+    currentProject = project;
+    projectFileName = file.name;
+    shapeEditor.clear();
+    projectDiagnostics = project.diagnostics;
+    renderDiagnostics();
+    if (
+      project.diagnostics.some(
+        (d) => d.code === "missing-project-xml" || d.code === "invalid-xml",
+      )
+    ) {
+      const rolesPanel = document.getElementById("track-roles-panel");
+      if (rolesPanel) rolesPanel.innerHTML = "";
+      missingAudioFiles = [];
+      renderExternalAudio();
+      return;
+    }
+
+    projectTempoMap = project.tempoMap;
+
+    // Use the roles saved for this file, or assign them by naming convention
+    projectHash = await TrackRoles.hashProject(await file.arrayBuffer());
+    trackRoles =
+      TrackRoles.load(projectHash) ??
+      TrackRoles.assign(
+        project.tracks,
+        project.scenes,
+        TrackRoles.loadNamingConvention(),
+      );
+    renderTrackRoles();
+
+    audioPlayer.clearCache();
+    await resolveExternalAudio(project);
+
+    arrangement = new Arrangement(project.tracks, trackRoles, projectTempoMap);
+    arrangementPosition = 0;
 
     // Initialize scene manager with tracks and scenes
-    sceneManager = new SceneManager(project.tracks, project.scenes);
+    sceneManager = new SceneManager(
+      project.tracks,
+      project.scenes,
+      eventSystem.getState().sliceGrid,
+      trackRoles,
+      eventSystem.getState().transposition,
+    );
 
     // Dispatch project loaded event
     eventSystem.dispatch({
@@ -89,14 +215,245 @@ async function loadDAWProject(file: File) {
     });
   } catch (error) {
     console.error("Error loading DAWproject:", error);
-    alert("Error loading DAWproject file. See console for details.");
+    projectDiagnostics = [
+      {
+        severity: "error",
+        code: "invalid-archive",
+        message: `Could not open ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ];
+    renderDiagnostics();
+  }
+}
+
+function renderDiagnostics() {
+  const panel = document.getElementById("diagnostics-panel");
+  if (!panel) return;
+
+  if (projectDiagnostics.length === 0) {
+    panel.innerHTML = "";
+    return;
+  }
+
+  const count = (severity: Diagnostic["severity"]) =>
+    projectDiagnostics.filter((d) => d.severity === severity).length;
+  const errors = count("error");
+  const warnings = count("warning");
+  const infos = count("info");
+
+  panel.innerHTML = `
+    <details class="diagnostics" ${errors > 0 ? "open" : ""}>
+      <summary>
+        Diagnostics: ${errors} error(s), ${warnings} warning(s), ${infos} info
+      </summary>
+      <ul>
+        ${projectDiagnostics
+          .map(
+            (d) => `
+        <li class="diagnostic ${d.severity}">
+          <span class="diagnostic-severity">${d.severity}</span>
+          <span class="diagnostic-message">${escapeHtml(d.message)}</span>
+          ${d.location ? `<code class="diagnostic-location">${escapeHtml(d.location)}</code>` : ""}
+        </li>
+        `,
+          )
+          .join("")}
+      </ul>
+    </details>
+  `;
+}
+
+function renderTrackRoles() {
+  const panel = document.getElementById("track-roles-panel");
+  if (!panel || !currentProject) return;
+
+  panel.innerHTML = `
+    <details class="track-roles">
+      <summary>Track roles</summary>
+      <table>
+        ${currentProject.tracks
+          .map(
+            (track) => `
+        <tr>
+          <td class="track-name">${escapeHtml(track.name)}</td>
+          <td class="track-content-type">${escapeHtml(track.contentType)}</td>
+          <td>
+            <select class="track-role" data-track-id="${escapeHtml(track.id)}">
+              ${TRACK_ROLES.map(
+                (role) =>
+                  `<option value="${role}" ${trackRoles[track.id] === role ? "selected" : ""}>${role}</option>`,
+              ).join("")}
+            </select>
+          </td>
+        </tr>
+        `,
+          )
+          .join("")}
+      </table>
+      <label for="naming-convention">Naming convention for new projects (role: pattern)</label>
+      <textarea id="naming-convention" rows="4" spellcheck="false">${escapeHtml(
+        TrackRoles.formatNamingConvention(TrackRoles.loadNamingConvention()),
+      )}</textarea>
+      <button id="apply-naming-convention" class="toggle-notes">Apply to this project</button>
+      <span id="naming-convention-error" class="naming-convention-error"></span>
+    </details>
+  `;
+
+  panel
+    .querySelectorAll<HTMLSelectElement>("select.track-role")
+    .forEach((select) => {
+      select.addEventListener("change", () => {
+        setTrackRoles({
+          ...trackRoles,
+          [select.dataset.trackId!]: select.value as TrackRole,
+        });
+      });
+    });
+
+  document
+    .getElementById("apply-naming-convention")
+    ?.addEventListener("click", () => {
+      const textarea = document.getElementById(
+        "naming-convention",
+      ) as HTMLTextAreaElement;
+      const error = document.getElementById("naming-convention-error");
+      try {
+        const convention = TrackRoles.parseNamingConvention(textarea.value);
+        TrackRoles.saveNamingConvention(convention);
+        setTrackRoles(
+          TrackRoles.assign(
+            currentProject!.tracks,
+            currentProject!.scenes,
+            convention,
+          ),
+        );
+        renderTrackRoles();
+        document.querySelector(".track-roles")?.setAttribute("open", "");
+      } catch (e) {
+        if (error)
+          error.textContent = e instanceof Error ? e.message : String(e);
+      }
+    });
+}
+
+function setTrackRoles(roles: TrackRoleMap) {
+  if (!currentProject) return;
+
+  trackRoles = roles;
+  TrackRoles.save(projectHash, roles);
+
+  const state = eventSystem.getState();
+  sceneManager = new SceneManager(
+    currentProject.tracks,
+    currentProject.scenes,
+    state.sliceGrid,
+    roles,
+    state.transposition,
+  );
+  arrangement = new Arrangement(currentProject.tracks, roles, projectTempoMap);
+  arrangementShapeKey = "";
+  eventSystem.dispatch({
+    type: "TRACK_ROLES_CHANGED",
+    totalScenes: sceneManager.getTotalScenes(),
+  });
+}
+
+// Use files remembered for this project for audio that isn't in the archive
+async function resolveExternalAudio(project: DAWProject) {
+  const missing = ExternalAudio.findMissing(project, projectZip);
+  const remembered =
+    missing.length > 0 ? await ExternalAudio.load(projectHash) : new Map();
+
+  externalAudioFiles = new Map(
+    Array.from(remembered).filter(([path]) => missing.includes(path)),
+  );
+  audioPlayer.setExternalFiles(externalAudioFiles);
+  missingAudioFiles = missing.filter((path) => !externalAudioFiles.has(path));
+  renderExternalAudio();
+}
+
+function renderExternalAudio(matchedCount?: number) {
+  const panel = document.getElementById("external-audio-panel");
+  if (!panel) return;
+
+  if (missingAudioFiles.length === 0) {
+    panel.innerHTML =
+      matchedCount !== undefined
+        ? `<div class="external-audio resolved">Found all external audio files</div>`
+        : "";
+    return;
   }
+
+  panel.innerHTML = `
+    <div class="external-audio">
+      <p>
+        This project uses ${missingAudioFiles.length} audio file(s) that aren't in the archive.
+        Choose the folder they are in, or the files themselves.
+        ${matchedCount !== undefined ? `<strong>Found ${matchedCount}, still missing:</strong>` : ""}
+      </p>
+      <ul>
+        ${missingAudioFiles.map((path) => `<li><code>${escapeHtml(path)}</code></li>`).join("")}
+      </ul>
+      ${
+        ExternalAudio.supportsDirectoryPicker()
+          ? `<button id="pick-audio-folder" class="file-label">Choose folder</button>`
+          : `<input type="file" id="external-audio-folder" webkitdirectory>
+      <label for="external-audio-folder" class="file-label">Choose folder</label>`
+      }
+      <input type="file" id="external-audio-files" accept="audio/*" multiple>
+      <label for="external-audio-files" class="file-label">Choose files</label>
+    </div>
+  `;
+
+  document
+    .getElementById("pick-audio-folder")
+    ?.addEventListener("click", async () => {
+      try {
+        const picked = await ExternalAudio.pickDirectory();
+        if (picked) applyExternalAudio(picked);
+      } catch (error) {
+        // Cancelled picker
+        console.log("No folder chosen:", error);
+      }
+    });
+
+  ["external-audio-folder", "external-audio-files"].forEach((id) => {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    input?.addEventListener("change", () => {
+      if (input.files && input.files.length > 0) {
+        applyExternalAudio(ExternalAudio.fromFileList(input.files));
+      }
+    });
+  });
+}
+
+async function applyExternalAudio(picked: PickedFile[]) {
+  const matches = ExternalAudio.match(missingAudioFiles, picked);
+  matches.forEach((file, path) => externalAudioFiles.set(path, file));
+  missingAudioFiles = missingAudioFiles.filter((path) => !matches.has(path));
+
+  audioPlayer.setExternalFiles(externalAudioFiles);
+  renderExternalAudio(matches.size);
+  await ExternalAudio.save(projectHash, externalAudioFiles);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
 }
 
 function updateUI(state: AppState) {
   const container = document.getElementById("scene-container");
   if (!container || !sceneManager || !state.projectLoaded) return;
 
+  if (state.isArrangementMode) {
+    displayArrangementView(state);
+    return;
+  }
+
   const scene = sceneManager.getScene(state.currentSceneIndex);
   if (!scene) return;
 
@@ -170,12 +527,28 @@ function createSceneHeader(scene: Scene, state: AppState): HTMLElement {
     </button>
     <div class="scene-info">
       <h2>${scene.name}</h2>
-      <p>Scene ${scene.index} of ${state.totalScenes}</p>
+      <p>Scene ${scene.index} of ${state.totalScenes}${scene.key ? ` · ${KeyAnalyzer.formatKey(scene.key)}` : ""}</p>
     </div>
     <div class="mode-toggle">
       <button id="mode-toggle" class="mode-btn ${state.isAutoMode ? "auto" : "scene"}">
         ${state.isAutoMode ? "🔄 Auto Mode" : "🎵 Scene Mode"}
       </button>
+      ${
+        arrangement && !arrangement.isEmpty()
+          ? `<button id="arrangement-toggle" class="mode-btn arrangement">🎼 Arrangement</button>`
+          : ""
+      }
+      <select id="transpose-select" class="convention-select" title="Transpose the reference audio and the shape">
+        ${Array.from(
+          { length: MAX_TRANSPOSITION * 2 + 1 },
+          (_, i) => i - MAX_TRANSPOSITION,
+        )
+          .map(
+            (semitones) =>
+              `<option value="${semitones}" ${state.transposition === semitones ? "selected" : ""}>${formatTransposition(semitones)}</option>`,
+          )
+          .join("")}
+      </select>
     </div>
     <button id="next-scene" class="nav-arrow" ${state.currentSceneIndex >= state.totalScenes ? "disabled" : ""}>
       ▶
@@ -212,10 +585,235 @@ function createSceneHeader(scene: Scene, state: AppState): HTMLElement {
   modeToggleBtn?.addEventListener("click", () =>
     eventSystem.dispatch({ type: "MODE_TOGGLE" }),
   );
+  header
+    .querySelector("#arrangement-toggle")
+    ?.addEventListener("click", () =>
+      eventSystem.dispatch({ type: "ARRANGEMENT_MODE_TOGGLE" }),
+    );
+  const transposeSelect = header.querySelector(
+    "#transpose-select",
+  ) as HTMLSelectElement;
+  transposeSelect?.addEventListener("change", () =>
+    eventSystem.dispatch({
+      type: "TRANSPOSITION_SET",
+      semitones: parseInt(transposeSelect.value),
+    }),
+  );
 
   return header;
 }
 
+function formatTransposition(semitones: number): string {
+  if (semitones === 0) return "Original key";
+  const sign = semitones > 0 ? "+" : "−";
+  return `${sign}${Math.abs(semitones)} semitone${Math.abs(semitones) === 1 ? "" : "s"}`;
+}
+
+function displayArrangementView(state: AppState) {
+  const container = document.getElementById("scene-container");
+  if (!container || !arrangement) return;
+
+  const length = arrangement.getLength();
+  const endPosition = projectTempoMap.getBarBeat(length);
+  const playing = state.isPlaying && arrangementPlaying;
+
+  container.innerHTML = `
+    <div class="arrangement-header">
+      <div class="scene-info">
+        <h2>Arrangement</h2>
+        <p>Ends at ${TempoMap.formatBarBeat(endPosition)} · ${formatSeconds(arrangement.getLengthInSeconds())}</p>
+      </div>
+      <div class="mode-toggle">
+        <button id="arrangement-toggle" class="mode-btn arrangement">🎵 Scenes</button>
+      </div>
+    </div>
+    <div class="arrangement-view">
+      <div class="arrangement-transport">
+        <button id="play-pause-btn" class="play-pause-btn">▶ Play</button>
+        <span id="arrangement-readout" class="arrangement-readout"></span>
+        <div id="audio-status" class="audio-status ${playing ? "playing" : "no-audio"}">${playing ? "Playing" : "Stopped"}</div>
+      </div>
+      <input type="range" id="arrangement-scrubber" class="arrangement-scrubber"
+        min="0" max="${length}" step="any" value="${arrangementPosition}">
+      <div id="arrangement-shape" class="shape-section"></div>
+    </div>
+  `;
+
+  document
+    .getElementById("arrangement-toggle")
+    ?.addEventListener("click", () =>
+      eventSystem.dispatch({ type: "ARRANGEMENT_MODE_TOGGLE" }),
+    );
+  document
+    .getElementById("play-pause-btn")
+    ?.addEventListener("click", () =>
+      eventSystem.dispatch({ type: "PLAY_PAUSE" }),
+    );
+
+  // Dragging the scrubber previews the position; releasing it seeks
+  const scrubber = document.getElementById(
+    "arrangement-scrubber",
+  ) as HTMLInputElement;
+  scrubber.addEventListener("pointerdown", () => {
+    arrangementScrubbing = true;
+  });
+  scrubber.addEventListener("input", () =>
+    showArrangementPosition(parseFloat(scrubber.value)),
+  );
+  scrubber.addEventListener("change", () => {
+    arrangementScrubbing = false;
+    arrangementPosition = parseFloat(scrubber.value);
+    if (eventSystem.getState().isPlaying) {
+      playArrangement();
+    }
+  });
+
+  updatePlayPauseButton(state);
+  arrangementShapeKey = "";
+  showArrangementPosition(getArrangementBeats());
+}
+
+// Beat position of the arrangement playhead
+function getArrangementBeats(): number {
+  return arrangementPlaying && audioPlayer.getIsPlaying()
+    ? projectTempoMap.secondsToBeats(audioPlayer.getTimelinePosition())
+    : arrangementPosition;
+}
+
+// Update the readout, scrubber and shape display for a playhead position
+function showArrangementPosition(beats: number) {
+  if (!arrangement) return;
+
+  const readout = document.getElementById("arrangement-readout");
+  if (readout) {
+    readout.textContent = `${TempoMap.formatBarBeat(projectTempoMap.getBarBeat(beats))} · ${formatSeconds(projectTempoMap.beatsToSeconds(beats))}`;
+  }
+
+  const scrubber = document.getElementById(
+    "arrangement-scrubber",
+  ) as HTMLInputElement | null;
+  if (scrubber && !arrangementScrubbing) {
+    scrubber.value = beats.toString();
+  }
+
+  // Only redraw the shape when the sounding notes change
+  const shape = arrangement.getShapeAt(
+    beats,
+    eventSystem.getState().excludedShapeLayers,
+  );
+  const shapeKey = shape.notes
+    .map((note) => note.key)
+    .sort((a, b) => a - b)
+    .join(",");
+  const section = document.getElementById("arrangement-shape");
+  if (!section || (shapeKey === arrangementShapeKey && section.hasChildNodes()))
+    return;
+  arrangementShapeKey = shapeKey;
+
+  section.innerHTML = `
+    <h3>Shape</h3>
+    ${shape.clips[0]?.name ? `<p class="clip-name">${escapeHtml(shape.clips[0].name)}</p>` : ""}
+    ${
+      shape.pitchClassSet
+        ? `
+    <div class="analysis-details">
+      <div class="analysis-row">
+        <span class="label">Chord Symbol:</span>
+        <span class="value chord-symbol">${shape.chord?.best?.symbol || "—"}</span>
+      </div>
+      <div class="analysis-row">
+        <span class="label">Forte Number:</span>
+        <span class="value">${shape.pitchClassSet.name || "—"}</span>
+      </div>
+      <div class="analysis-row">
+        <span class="label">Normal Form:</span>
+        <span class="value">[${shape.pitchClassSet.normalForm.join(", ")}]</span>
+      </div>
+    </div>
+    `
+        : `<p class="relation-empty">${shape.clips.length > 0 ? "Rest" : "No shape clip here"}</p>`
+    }
+  `;
+  const pitchClasses = Array.from(shape.pitchClassSet?.pitchClasses || []).sort(
+    (a, b) => a - b,
+  );
+  section.insertBefore(
+    createLargeKeyboard(pitchClasses),
+    section.querySelector(".analysis-details, .relation-empty"),
+  );
+}
+
+async function playArrangement() {
+  if (!arrangement) return;
+
+  const audioStatus = document.getElementById("audio-status");
+  if (audioStatus) {
+    audioStatus.textContent = "Loading audio...";
+    audioStatus.className = "audio-status loading";
+  }
+
+  // Start over once the end has been reached
+  if (arrangementPosition >= arrangement.getLength()) {
+    arrangementPosition = 0;
+  }
+
+  const regions: TimelineRegion[] = [];
+  for (const region of arrangement.getReferenceRegions()) {
+    const buffer = projectZip
+      ? await audioPlayer.loadAudioFromZip(projectZip, region.audioFile)
+      : null;
+    if (buffer) {
+      regions.push({
+        buffer,
+        start: region.startSeconds,
+        offset: region.sourceStart,
+        duration: region.durationSeconds,
+      });
+    }
+  }
+
+  await audioPlayer.playTimeline(
+    regions,
+    projectTempoMap.beatsToSeconds(arrangementPosition),
+  );
+
+  // Paused or left arrangement mode while loading
+  const state = eventSystem.getState();
+  if (!state.isArrangementMode || !state.isPlaying) {
+    audioPlayer.stop();
+    return;
+  }
+  arrangementPlaying = true;
+
+  if (audioStatus) {
+    audioStatus.textContent =
+      regions.length > 0 ? "Playing" : "No reference audio on the timeline";
+    audioStatus.className = `audio-status ${regions.length > 0 ? "playing" : "no-audio"}`;
+  }
+}
+
+// Move the playhead display along with the arrangement audio
+function followArrangement() {
+  requestAnimationFrame(followArrangement);
+
+  const state = eventSystem.getState();
+  if (!arrangement || !state.isArrangementMode || !arrangementPlaying) return;
+
+  const beats = getArrangementBeats();
+  if (beats >= arrangement.getLength()) {
+    eventSystem.dispatch({ type: "PLAY_PAUSE" });
+    arrangementPosition = arrangement.getLength();
+    showArrangementPosition(arrangementPosition);
+    return;
+  }
+  showArrangementPosition(beats);
+}
+
+function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, "0")}`;
+}
+
 function createSceneContent(scene: Scene, state: AppState): HTMLElement {
   const content = document.createElement("div");
   content.className = "scene-content";
@@ -237,6 +835,49 @@ function createSceneContent(scene: Scene, state: AppState): HTMLElement {
       <p class="clip-timing">Duration: ${scene.referenceClip.finalAudioEnd && scene.referenceClip.finalAudioStart ? (scene.referenceClip.finalAudioEnd - scene.referenceClip.finalAudioStart).toFixed(1) + "s" : scene.referenceClip.duration.toFixed(2) + " beats"}</p>
       <div id="audio-status" class="audio-status">Loading audio...</div>
       <button id="play-pause-btn" class="play-pause-btn">⏸ Pause</button>
+      <label class="speed-control" title="Playback speed (pitch is kept)">
+        Speed
+        <input type="range" id="speed-slider" min="${MIN_PLAYBACK_SPEED * 100}" max="${MAX_PLAYBACK_SPEED * 100}" step="5" value="${Math.round(state.playbackSpeed * 100)}">
+        <span id="speed-value">${Math.round(state.playbackSpeed * 100)}%</span>
+      </label>
+      <div class="launch-controls">
+        <select id="launch-quantization" class="convention-select" title="When a scene you switch to starts playing">
+          <option value="none" ${state.launchQuantization === "none" ? "selected" : ""}>Switch immediately</option>
+          <option value="bar" ${state.launchQuantization === "bar" ? "selected" : ""}>Switch on the next bar</option>
+        </select>
+        <select id="crossfade-select" class="convention-select" title="Fade between scenes">
+          ${CROSSFADE_OPTIONS.map(
+            (option) =>
+              `<option value="${option.seconds}" ${state.crossfade === option.seconds ? "selected" : ""}>${option.label}</option>`,
+          ).join("")}
+        </select>
+      </div>
+      <div class="synth-controls">
+        <select id="synth-pattern" class="convention-select" title="Play the shape along with the reference">
+          ${SYNTH_PATTERN_OPTIONS.map(
+            (option) =>
+              `<option value="${option.pattern}" ${state.synthPattern === option.pattern ? "selected" : ""}>${option.label}</option>`,
+          ).join("")}
+        </select>
+        <label class="mix-control" title="Reference audio level">
+          Reference
+          <input type="range" id="reference-gain" min="0" max="100" step="5" value="${Math.round(state.referenceGain * 100)}">
+        </label>
+        <label class="mix-control" title="Shape synth level">
+          Shape
+          <input type="range" id="shape-gain" min="0" max="100" step="5" value="${Math.round(state.shapeGain * 100)}">
+        </label>
+      </div>
+      <div class="metronome-controls">
+        <label title="Click along with the scene, accenting each bar">
+          <input type="checkbox" id="metronome-toggle" ${state.metronome ? "checked" : ""}>
+          Metronome
+        </label>
+        <label title="Count a bar in before each scene starts">
+          <input type="checkbox" id="count-in-toggle" ${state.countIn ? "checked" : ""}>
+          Count-in
+        </label>
+      </div>
     `;
     leftColumn.appendChild(referenceSection);
 
@@ -251,15 +892,105 @@ function createSceneContent(scene: Scene, state: AppState): HTMLElement {
         );
         updatePlayPauseButton(state);
       }
+
+      // Show the speed while dragging, apply it on release
+      const speedSlider = document.getElementById(
+        "speed-slider",
+      ) as HTMLInputElement;
+      const speedValue = document.getElementById("speed-value");
+      speedSlider?.addEventListener("input", () => {
+        if (speedValue) speedValue.textContent = `${speedSlider.value}%`;
+      });
+      speedSlider?.addEventListener("change", () =>
+        eventSystem.dispatch({
+          type: "PLAYBACK_SPEED_SET",
+          speed: parseInt(speedSlider.value) / 100,
+        }),
+      );
+
+      const quantizationSelect = document.getElementById(
+        "launch-quantization",
+      ) as HTMLSelectElement;
+      quantizationSelect?.addEventListener("change", () =>
+        eventSystem.dispatch({
+          type: "LAUNCH_QUANTIZATION_SET",
+          quantization: quantizationSelect.value as LaunchQuantization,
+        }),
+      );
+
+      const crossfadeSelect = document.getElementById(
+        "crossfade-select",
+      ) as HTMLSelectElement;
+      crossfadeSelect?.addEventListener("change", () =>
+        eventSystem.dispatch({
+          type: "CROSSFADE_SET",
+          seconds: parseFloat(crossfadeSelect.value),
+        }),
+      );
+
+      const synthPatternSelect = document.getElementById(
+        "synth-pattern",
+      ) as HTMLSelectElement;
+      synthPatternSelect?.addEventListener("change", () =>
+        eventSystem.dispatch({
+          type: "SYNTH_PATTERN_SET",
+          pattern: synthPatternSelect.value as SynthPattern,
+        }),
+      );
+
+      document
+        .getElementById("metronome-toggle")
+        ?.addEventListener("change", () =>
+          eventSystem.dispatch({ type: "METRONOME_TOGGLE" }),
+        );
+      document
+        .getElementById("count-in-toggle")
+        ?.addEventListener("change", () =>
+          eventSystem.dispatch({ type: "COUNT_IN_TOGGLE" }),
+        );
+
+      // Levels follow the sliders while dragging
+      (["reference", "shape"] as const).forEach((channel) => {
+        const slider = document.getElementById(
+          `${channel}-gain`,
+        ) as HTMLInputElement;
+        slider?.addEventListener("input", () => {
+          const gain = parseInt(slider.value) / 100;
+          audioPlayer.setMix(
+            channel === "reference" ? gain : state.referenceGain,
+            channel === "shape" ? gain : state.shapeGain,
+          );
+        });
+        slider?.addEventListener("change", () =>
+          eventSystem.dispatch({
+            type: "MIX_GAIN_SET",
+            channel,
+            gain: parseInt(slider.value) / 100,
+          }),
+        );
+      });
     }, 0);
   } else {
     leftColumn.innerHTML =
       '<div class="no-reference">No reference clip for this scene</div>';
   }
 
+  // Left column: Relations to the neighbouring scenes
+  if (sceneManager) {
+    leftColumn.appendChild(
+      createRelationsPanel(
+        sceneManager.getRelation(scene.index - 1, scene.index),
+        sceneManager.getRelation(scene.index, scene.index + 1),
+      ),
+    );
+  }
+
   // Right column: Shape analysis
-  if (scene.shapeClip && scene.pitchClassSet) {
-    const shapeSection = createShapeAnalysis(scene);
+  if (
+    scene.shapeClip &&
+    (scene.pitchClassSet || state.isEditMode || scene.shapeLayers.length > 1)
+  ) {
+    const shapeSection = createShapeAnalysis(scene, state);
     rightColumn.appendChild(shapeSection);
   } else {
     rightColumn.innerHTML =
@@ -272,25 +1003,59 @@ function createSceneContent(scene: Scene, state: AppState): HTMLElement {
   return content;
 }
 
-function createShapeAnalysis(scene: Scene): HTMLElement {
+function createShapeAnalysis(scene: Scene, state: AppState): HTMLElement {
   const section = document.createElement("div");
   section.className = "shape-section";
 
-  if (!scene.pitchClassSet) return section;
-
-  const pitchClasses = Array.from(scene.pitchClassSet.pitchClasses).sort(
-    (a, b) => a - b,
-  );
-  const pcNames = pitchClasses.map((pc) =>
-    PitchClassSetAnalyzer.getPitchClassName(pc),
-  );
-
   section.innerHTML = `
     <h3>Shape Analysis</h3>
     ${scene.shapeClip?.name ? `<p class="clip-name">${scene.shapeClip.name}</p>` : ""}
+    ${scene.shapeLayers.length > 1 ? createShapeLayers(scene) : ""}
     <button id="octave-toggle" class="toggle-notes">
       ${showTwoOctaves ? "2 Octaves" : "1 Octave"}
     </button>
+    <select id="convention-select" class="convention-select" title="Prime form convention">
+      <option value="forte" ${state.primeFormConvention === "forte" ? "selected" : ""}>Forte</option>
+      <option value="rahn" ${state.primeFormConvention === "rahn" ? "selected" : ""}>Rahn</option>
+    </select>
+    <select id="slice-grid-select" class="convention-select" title="Slice grid">
+      ${SLICE_GRID_OPTIONS.map(
+        (option) =>
+          `<option value="${option.beats}" ${state.sliceGrid === option.beats ? "selected" : ""}>${option.label}</option>`,
+      ).join("")}
+    </select>
+    <button id="edit-toggle" class="toggle-notes edit-toggle ${state.isEditMode ? "editing" : ""}">
+      ${state.isEditMode ? "Done Editing" : "Edit Shape"}
+    </button>
+    ${
+      state.isEditMode
+        ? `
+    <div class="edit-controls">
+      <select id="edit-octave" class="convention-select" title="Octave of the keyboard's C">
+        ${[1, 2, 3, 4, 5, 6, 7]
+          .map(
+            (octave) =>
+              `<option value="${octave}" ${state.editOctave === octave ? "selected" : ""}>C${octave} octave</option>`,
+          )
+          .join("")}
+      </select>
+      <button id="undo-edit" class="toggle-notes" ${state.undoDepth === 0 ? "disabled" : ""}>
+        Undo
+      </button>
+      <button id="download-project" class="toggle-notes">
+        Download .dawproject
+      </button>
+      <p class="edit-hint">Click keys to add or remove notes${
+        scene.slices && scene.slices.length > 1 ? " in the slice shown" : ""
+      }${
+        scene.shapeLayers.length > 1
+          ? ` in ${escapeHtml(scene.shapeLayers.find((layer) => layer.clip === scene.shapeClip)?.trackName || "")}`
+          : ""
+      }</p>
+    </div>
+    `
+        : ""
+    }
   `;
 
   // Create large keyboard visualization
@@ -298,10 +1063,22 @@ function createShapeAnalysis(scene: Scene): HTMLElement {
   keyboardContainer.className = "keyboard-container";
   keyboardContainer.id = "keyboard-container"; // Give it an ID for updates
 
-  const keyboard = createLargeKeyboard(pitchClasses);
+  if (sliceSceneIndex !== scene.index) {
+    sliceSceneIndex = scene.index;
+    currentSliceIndex = 0;
+  }
+  const keyboard = createLargeKeyboard(
+    getDisplayedPitchClasses(scene),
+    getDisplayedLayerColors(scene),
+  );
   keyboardContainer.appendChild(keyboard);
   section.appendChild(keyboardContainer);
 
+  // Step through the clip's verticalities when it holds several chords
+  if (scene.slices && scene.slices.length > 1) {
+    section.appendChild(createSliceStrip(scene));
+  }
+
   // Add octave toggle functionality
   setTimeout(() => {
     const octaveToggle = document.getElementById(
@@ -313,20 +1090,100 @@ function createShapeAnalysis(scene: Scene): HTMLElement {
         octaveToggle.textContent = showTwoOctaves ? "2 Octaves" : "1 Octave";
 
         // Recreate the keyboard with new octave setting
-        const container = document.getElementById("keyboard-container");
-        if (container) {
-          container.innerHTML = "";
-          const newKeyboard = createLargeKeyboard(pitchClasses);
-          container.appendChild(newKeyboard);
-        }
+        renderKeyboard(scene);
       });
     }
+
+    const conventionSelect = document.getElementById(
+      "convention-select",
+    ) as HTMLSelectElement;
+    conventionSelect?.addEventListener("change", () =>
+      eventSystem.dispatch({
+        type: "CONVENTION_SET",
+        convention: conventionSelect.value as PrimeFormConvention,
+      }),
+    );
+
+    const sliceGridSelect = document.getElementById(
+      "slice-grid-select",
+    ) as HTMLSelectElement;
+    sliceGridSelect?.addEventListener("change", () =>
+      eventSystem.dispatch({
+        type: "SLICE_GRID_SET",
+        grid: parseFloat(sliceGridSelect.value),
+      }),
+    );
+
+    document
+      .getElementById("edit-toggle")
+      ?.addEventListener("click", () =>
+        eventSystem.dispatch({ type: "EDIT_MODE_TOGGLE" }),
+      );
+
+    const editOctaveSelect = document.getElementById(
+      "edit-octave",
+    ) as HTMLSelectElement;
+    editOctaveSelect?.addEventListener("change", () =>
+      eventSystem.dispatch({
+        type: "EDIT_OCTAVE_SET",
+        octave: parseInt(editOctaveSelect.value),
+      }),
+    );
+
+    document
+      .querySelectorAll<HTMLInputElement>(".shape-layer-toggle")
+      .forEach((toggle) =>
+        toggle.addEventListener("change", () =>
+          eventSystem.dispatch({
+            type: "SHAPE_LAYER_TOGGLE",
+            trackId: toggle.dataset.trackId!,
+          }),
+        ),
+      );
+
+    document.getElementById("undo-edit")?.addEventListener("click", undoEdit);
+    document
+      .getElementById("download-project")
+      ?.addEventListener("click", downloadProject);
   }, 0);
 
+  if (!scene.pitchClassSet) return section;
+
+  const pitchClasses = Array.from(scene.pitchClassSet.pitchClasses).sort(
+    (a, b) => a - b,
+  );
+  const pcNames = pitchClasses.map((pc) =>
+    PitchClassSetAnalyzer.getPitchClassName(pc),
+  );
+
   // Add pitch class set details
   const analysisDetails = document.createElement("div");
   analysisDetails.className = "analysis-details";
+  const chord = scene.chord;
   analysisDetails.innerHTML = `
+    ${
+      chord?.best
+        ? `
+    <div class="analysis-row">
+      <span class="label">Chord Symbol:</span>
+      <span class="value chord-symbol">${chord.best.symbol}</span>
+    </div>
+    ${
+      chord.alternatives.length > 0
+        ? `
+    <div class="analysis-row">
+      <span class="label">Also Reads As:</span>
+      <span class="value">${chord.alternatives
+        .slice(0, 3)
+        .map((reading) => reading.symbol)
+        .join(", ")}</span>
+    </div>
+    `
+        : ""
+    }
+    `
+        : ""
+    }
     <div class="analysis-row">
       <span class="label">Pitch Classes:</span>
       <span class="value">{${pcNames.join(", ")}}</span>
@@ -344,7 +1201,37 @@ function createShapeAnalysis(scene: Scene): HTMLElement {
         ? `
     <div class="analysis-row">
       <span class="label">Forte Number:</span>
-      <span class="value">${scene.pitchClassSet.name}</span>
+      <span class="value">${scene.pitchClassSet.name}${scene.pitchClassSet.descriptiveName ? ` (${scene.pitchClassSet.descriptiveName})` : ""}</span>
+    </div>
+    `
+        : ""
+    }
+    ${
+      scene.romanNumeral
+        ? `
+    <div class="analysis-row">
+      <span class="label">Roman Numeral:</span>
+      <span class="value">${scene.romanNumeral.numeral}${scene.romanNumeral.secondary ? ` = ${scene.romanNumeral.secondary}` : ""} in ${KeyAnalyzer.formatKey(scene.romanNumeral.key)}</span>
+    </div>
+    `
+        : ""
+    }
+    ${
+      scene.pitchClassSet.zRelation
+        ? `
+    <div class="analysis-row">
+      <span class="label">Z-Related:</span>
+      <span class="value">${scene.pitchClassSet.zRelation}</span>
+    </div>
+    `
+        : ""
+    }
+    ${
+      scene.pitchClassSet.complement
+        ? `
+    <div class="analysis-row">
+      <span class="label">Complement:</span>
+      <span class="value">${scene.pitchClassSet.complement}</span>
     </div>
     `
         : ""
@@ -353,13 +1240,320 @@ function createShapeAnalysis(scene: Scene): HTMLElement {
       <span class="label">Interval Vector:</span>
       <span class="value">&lt;${scene.pitchClassSet.interval.join("")}&gt;</span>
     </div>
+    <div id="voicing-rows">${createVoicingRows(getDisplayedVoicing(scene))}</div>
   `;
   section.appendChild(analysisDetails);
 
   return section;
 }
 
-function createLargeKeyboard(activePitchClasses: number[]): HTMLElement {
+const CROSSFADE_OPTIONS = [
+  { seconds: 0, label: "No crossfade" },
+  { seconds: 0.01, label: "10 ms crossfade" },
+  { seconds: 0.03, label: "30 ms crossfade" },
+  { seconds: 0.1, label: "100 ms crossfade" },
+];
+
+const SYNTH_PATTERN_OPTIONS: { pattern: SynthPattern; label: string }[] = [
+  { pattern: "off", label: "Shape synth off" },
+  { pattern: "block", label: "Block chords" },
+  { pattern: "arpeggio-up", label: "Arpeggio up" },
+  { pattern: "arpeggio-down", label: "Arpeggio down" },
+  { pattern: "bass-chord", label: "Bass, then chord" },
+];
+
+const SLICE_GRID_OPTIONS = [
+  { beats: 0.25, label: "1/16 grid" },
+  { beats: 0.5, label: "1/8 grid" },
+  { beats: 1, label: "1/4 grid" },
+  { beats: 2, label: "1/2 grid" },
+  { beats: 4, label: "Bar grid" },
+];
+
+// Colors of the shape layers, by position among the shape tracks
+const LAYER_COLORS = [
+  "deeppink",
+  "#4ecdc4",
+  "#ffb347",
+  "#a78bfa",
+  "#6bcb77",
+  "#5dade2",
+];
+
+function getLayerColor(trackId: string): string {
+  const index = sceneManager
+    ? TrackRoles.getTrackIds(sceneManager.getRoles(), "shape").indexOf(trackId)
+    : 0;
+  return LAYER_COLORS[Math.max(index, 0) % LAYER_COLORS.length];
+}
+
+function createShapeLayers(scene: Scene): string {
+  return `
+    <div class="shape-layers">
+      ${scene.shapeLayers
+        .map(
+          (layer) => `
+      <label class="shape-layer ${layer.included ? "" : "excluded"}">
+        <input type="checkbox" class="shape-layer-toggle" data-track-id="${escapeHtml(layer.trackId)}" ${layer.included ? "checked" : ""}>
+        <span class="layer-swatch" style="background: ${getLayerColor(layer.trackId)}"></span>
+        <span class="layer-name">${escapeHtml(layer.trackName)}</span>
+        <span class="layer-analysis">
+          ${layer.chord?.best?.symbol || "—"}
+          ${layer.pitchClassSet ? `${layer.pitchClassSet.name || ""} [${layer.pitchClassSet.normalForm.join(", ")}]` : ""}
+        </span>
+      </label>
+      `,
+        )
+        .join("")}
+    </div>
+  `;
+}
+
+// The slice shown on the keyboard, if the shape holds several chords
+function getDisplayedSlice(scene: Scene): HarmonicSlice | undefined {
+  return scene.slices && scene.slices.length > 1
+    ? scene.slices[currentSliceIndex]
+    : undefined;
+}
+
+function getDisplayedPitchClasses(scene: Scene): number[] {
+  const pitchClasses =
+    getDisplayedSlice(scene)?.pitchClassSet.pitchClasses ||
+    scene.pitchClassSet?.pitchClasses;
+  return Array.from(pitchClasses || []).sort((a, b) => a - b);
+}
+
+// Which included layers sound each displayed pitch class, as layer colors
+function getDisplayedLayerColors(scene: Scene): Map<number, string[]> {
+  const colors = new Map<number, string[]>();
+  if (scene.shapeLayers.length < 2) return colors;
+
+  const slice = getDisplayedSlice(scene);
+  scene.shapeLayers
+    .filter((layer) => layer.included)
+    .forEach((layer) => {
+      const notes = slice
+        ? slice.notes.filter((note) => layer.notes.includes(note))
+        : layer.notes;
+      new Set(notes.map((note) => note.key % 12)).forEach((pc) =>
+        colors.set(pc, [
+          ...(colors.get(pc) || []),
+          getLayerColor(layer.trackId),
+        ]),
+      );
+    });
+  return colors;
+}
+
+function renderKeyboard(scene: Scene) {
+  const container = document.getElementById("keyboard-container");
+  if (container) {
+    container.innerHTML = "";
+    container.appendChild(
+      createLargeKeyboard(
+        getDisplayedPitchClasses(scene),
+        getDisplayedLayerColors(scene),
+      ),
+    );
+  }
+}
+
+function createSliceStrip(scene: Scene): HTMLElement {
+  const strip = document.createElement("div");
+  strip.className = "slice-strip";
+  strip.id = "slice-strip";
+
+  scene.slices?.forEach((slice, index) => {
+    const chip = document.createElement("button");
+    chip.className = `slice-chip ${index === currentSliceIndex ? "active" : ""}`;
+    chip.dataset.index = index.toString();
+    chip.title = `Beats ${slice.start}–${slice.end}: (${slice.pitchClassSet.primeForm.join(",")}) <${slice.pitchClassSet.interval.join("")}>`;
+    chip.innerHTML = `
+      <span class="slice-chord">${slice.chord.best?.symbol || "—"}</span>
+      <span class="slice-forte">${slice.pitchClassSet.name || ""}</span>
+    `;
+    chip.addEventListener("click", () => showSlice(scene, index));
+    strip.appendChild(chip);
+  });
+
+  return strip;
+}
+
+function showSlice(scene: Scene, index: number) {
+  if (index === currentSliceIndex) return;
+  currentSliceIndex = index;
+
+  renderKeyboard(scene);
+  const voicingRows = document.getElementById("voicing-rows");
+  if (voicingRows) {
+    voicingRows.innerHTML = createVoicingRows(getDisplayedVoicing(scene));
+  }
+  document.querySelectorAll<HTMLElement>(".slice-chip").forEach((chip) => {
+    chip.classList.toggle("active", chip.dataset.index === index.toString());
+  });
+}
+
+// Follow the reference audio and step the keyboard through the shape's slices
+function followSlices() {
+  requestAnimationFrame(followSlices);
+
+  const state = eventSystem.getState();
+  if (
+    !sceneManager ||
+    state.isEditMode ||
+    !state.isPlaying ||
+    !audioPlayer.getIsPlaying()
+  ) {
+    return;
+  }
+
+  const scene = sceneManager.getScene(state.currentSceneIndex);
+  if (
+    !scene?.shapeClip ||
+    !scene.slices ||
+    scene.slices.length < 2 ||
+    sliceSceneIndex !== scene.index
+  ) {
+    return;
+  }
+
+  const originBeats = scene.shapeClip.time + (scene.shapeClip.loopStart || 0);
+  const elapsedBeats =
+    projectTempoMap.secondsToBeats(
+      projectTempoMap.beatsToSeconds(originBeats) +
+        audioPlayer.getPlaybackPosition(),
+    ) - originBeats;
+  const index = HarmonicSlicer.getSliceIndexAt(
+    scene.shapeClip,
+    scene.slices,
+    elapsedBeats,
+  );
+  if (index >= 0) {
+    showSlice(scene, index);
+  }
+}
+
+function createRelationsPanel(
+  fromPrevious?: SceneRelation,
+  toNext?: SceneRelation,
+): HTMLElement {
+  const section = document.createElement("div");
+  section.className = "relations-section";
+
+  section.innerHTML = `
+    <h3>Transformations</h3>
+    ${createRelationBlock("From previous", fromPrevious, fromPrevious?.from)}
+    ${createRelationBlock("To next", toNext, toNext?.to)}
+  `;
+
+  return section;
+}
+
+function createRelationBlock(
+  title: string,
+  relation?: SceneRelation,
+  otherScene?: Scene,
+): string {
+  if (!relation || !otherScene) {
+    return `
+    <div class="relation-block">
+      <h4>${title}</h4>
+      <p class="relation-empty">No shape to compare</p>
+    </div>
+    `;
+  }
+
+  const motions = relation.voiceLeading?.motions
+    .map(
+      (motion) =>
+        `${VoicingAnalyzer.getKeyName(motion.from)}→${VoicingAnalyzer.getKeyName(motion.to)} (${motion.interval > 0 ? "+" : ""}${motion.interval})`,
+    )
+    .join(", ");
+
+  return `
+    <div class="relation-block">
+      <h4>${title}: ${otherScene.name}</h4>
+      <div class="analysis-row">
+        <span class="label">Operation:</span>
+        <span class="value">${relation.operations.length > 0 ? relation.operations.join(", ") : "none"}</span>
+      </div>
+      ${
+        relation.neoRiemannianPath !== undefined
+          ? `
+      <div class="analysis-row">
+        <span class="label">P/L/R:</span>
+        <span class="value">${relation.neoRiemannianPath || "identity"}</span>
+      </div>
+      `
+          : ""
+      }
+      ${
+        relation.voiceLeading
+          ? `
+      <div class="analysis-row">
+        <span class="label">Voice Leading:</span>
+        <span class="value">${relation.voiceLeading.distance} semitones</span>
+      </div>
+      <p class="voice-motions">${motions}</p>
+      `
+          : ""
+      }
+    </div>
+  `;
+}
+
+// The voicing of the slice on the keyboard, or of the scene's main chord
+function getDisplayedVoicing(scene: Scene): Voicing | undefined {
+  return getDisplayedSlice(scene)?.voicing ?? scene.voicing;
+}
+
+function createVoicingRows(voicing?: Voicing): string {
+  if (!voicing) return "";
+  const doubled = voicing.doubledTones
+    .map(
+      (tone) =>
+        `${PitchClassSetAnalyzer.getPitchClassName(tone.pitchClass)} ×${tone.count}`,
+    )
+    .join(", ");
+
+  return `
+    <div class="analysis-row">
+      <span class="label">Voicing:</span>
+      <span class="value">${voicing.keys.map((key) => VoicingAnalyzer.getKeyName(key)).join(" ")}</span>
+    </div>
+    <div class="analysis-row">
+      <span class="label">Bass:</span>
+      <span class="value">${VoicingAnalyzer.getKeyName(voicing.bass)}${voicing.inversion ? ` (${voicing.inversion})` : ""}</span>
+    </div>
+    <div class="analysis-row">
+      <span class="label">Interval Stack:</span>
+      <span class="value">${voicing.intervalStack.length > 0 ? voicing.intervalStack.join("-") : "—"}</span>
+    </div>
+    <div class="analysis-row">
+      <span class="label">Span / Spread:</span>
+      <span class="value">${voicing.span} / ${voicing.spread} semitones</span>
+    </div>
+    <div class="analysis-row">
+      <span class="label">Position:</span>
+      <span class="value">${voicing.position}</span>
+    </div>
+    ${
+      doubled
+        ? `
+    <div class="analysis-row">
+      <span class="label">Doubled:</span>
+      <span class="value">${doubled}</span>
+    </div>
+    `
+        : ""
+    }
+  `;
+}
+
+function createLargeKeyboard(
+  activePitchClasses: number[],
+  layerColors: Map<number, string[]> = new Map(),
+): HTMLElement {
   const keyboard = document.createElement("div");
   keyboard.className = "large-keyboard";
 
@@ -368,6 +1562,8 @@ function createLargeKeyboard(activePitchClasses: number[]): HTMLElement {
   let totalWhiteKeys: number;
   let blackKeyPositions: number[];
   let blackKeyWidth: number;
+  let whiteKeyOffsets: number[]; // semitones above the keyboard's lowest key
+  let blackKeyOffsets: number[];
 
   if (showTwoOctaves) {
     // Two octaves starting on F: F G A B C D E | F G A B C D E
@@ -375,6 +1571,8 @@ function createLargeKeyboard(activePitchClasses: number[]): HTMLElement {
     blackKeys = [6, 8, 10, 1, 3, 6, 8, 10, 1, 3]; // 10 black keys (F# G# A# C# D# repeated)
     totalWhiteKeys = 14;
     blackKeyWidth = 35;
+    whiteKeyOffsets = [0, 2, 4, 6, 7, 9, 11, 12, 14, 16, 18, 19, 21, 23];
+    blackKeyOffsets = [1, 3, 5, 8, 10, 13, 15, 17, 20, 22];
 
     const keyUnit = 700 / totalWhiteKeys; // ~50px per white key
 
@@ -397,6 +1595,8 @@ function createLargeKeyboard(activePitchClasses: number[]): HTMLElement {
     blackKeys = [1, 3, 6, 8, 10]; // 5 black keys (C# D# F# G# A#)
     totalWhiteKeys = 7;
     blackKeyWidth = 60;
+    whiteKeyOffsets = [0, 2, 4, 5, 7, 9, 11];
+    blackKeyOffsets = [1, 3, 6, 8, 10];
 
     const keyUnit = 700 / totalWhiteKeys; // ~100px per white key
 
@@ -410,14 +1610,58 @@ function createLargeKeyboard(activePitchClasses: number[]): HTMLElement {
     ];
   }
 
+  // While editing, keys map to MIDI keys around the chosen octave and toggle notes in the shape clip,
+  // which holds them untransposed
+  const state = eventSystem.getState();
+  const editScene = state.isEditMode
+    ? sceneManager?.getScene(state.currentSceneIndex)
+    : undefined;
+  const editClip = editScene?.shapeClip;
+  // Edits stay within the slice shown, when the shape holds several chords
+  const editSlice = editScene ? getDisplayedSlice(editScene) : undefined;
+  const editSpan = editSlice
+    ? { start: editSlice.start, end: editSlice.end }
+    : undefined;
+  const lowestKey = (state.editOctave + 1) * 12 - (showTwoOctaves ? 7 : 0);
+  const makeEditable = (key: HTMLElement, offset: number) => {
+    if (!editClip) return;
+    const midiKey = lowestKey + offset;
+    const clipKey = midiKey - state.transposition;
+    key.dataset.key = midiKey.toString();
+    key.title = VoicingAnalyzer.getKeyName(midiKey);
+    key.classList.add("editable");
+    key.classList.toggle(
+      "in-clip",
+      shapeEditor.hasKey(editClip, clipKey, editSpan),
+    );
+    key.addEventListener("click", () =>
+      editShapeKey(editClip, clipKey, editSpan),
+    );
+  };
+
+  // Active keys take the colors of the layers sounding them, striped when shared
+  const colorByLayer = (key: HTMLElement, pc: number) => {
+    const colors = activePitchClasses.includes(pc) ? layerColors.get(pc) : [];
+    if (!colors || colors.length === 0) return;
+    const width = 100 / colors.length;
+    key.style.background =
+      colors.length === 1
+        ? colors[0]
+        : `linear-gradient(to right, ${colors
+            .map((color, i) => `${color} ${i * width}% ${(i + 1) * width}%`)
+            .join(", ")})`;
+  };
+
   // Create white keys first
   const whiteKeysContainer = document.createElement("div");
   whiteKeysContainer.className = "white-keys";
 
-  whiteKeys.forEach((pc) => {
+  whiteKeys.forEach((pc, index) => {
     const key = document.createElement("div");
     key.className = `key white-key ${activePitchClasses.includes(pc) ? "active" : ""}`;
     key.dataset.pitch = pc.toString();
+    makeEditable(key, whiteKeyOffsets[index]);
+    colorByLayer(key, pc);
 
     // No labels needed - clean visual
 
@@ -435,6 +1679,8 @@ function createLargeKeyboard(activePitchClasses: number[]): HTMLElement {
     key.style.left = `${blackKeyPositions[index]}px`;
     key.style.top = "-3px"; // Shift black keys up slightly
     key.style.width = `${showTwoOctaves ? 35 : 60}px`; // Dynamic width based on octave mode
+    makeEditable(key, blackKeyOffsets[index]);
+    colorByLayer(key, pc);
 
     // No labels needed - clean visual
 
@@ -447,6 +1693,51 @@ function createLargeKeyboard(activePitchClasses: number[]): HTMLElement {
   return keyboard;
 }
 
+function editShapeKey(
+  clip: Clip,
+  key: number,
+  span?: { start: number; end: number },
+) {
+  shapeEditor.toggleKey(clip, key, span);
+  eventSystem.dispatch({
+    type: "SHAPE_EDITED",
+    undoDepth: shapeEditor.getUndoDepth(),
+  });
+}
+
+function undoEdit() {
+  if (shapeEditor.undo()) {
+    eventSystem.dispatch({
+      type: "SHAPE_EDITED",
+      undoDepth: shapeEditor.getUndoDepth(),
+    });
+  }
+}
+
+async function downloadProject() {
+  if (!currentProject) return;
+
+  try {
+    const bytes = await new DAWProjectWriter().write(
+      currentProject,
+      projectZip,
+    );
+    const blob = new Blob([bytes], { type: "application/zip" });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = projectFileName.replace(
+      /(\.dawproject)?$/,
+      " (edited).dawproject",
+    );
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  } catch (error) {
+    console.error("Error writing DAWproject:", error);
+  }
+}
+
 async function loadSceneAudio(
   scene: Scene,
   state: AppState,
@@ -466,6 +1757,8 @@ async function loadSceneAudio(
   );
 
   if (!scene.referenceClip || !scene.referenceClip.audioFile || !projectZip) {
+    // The previous scene may still be waiting for its bar to end
+    audioPlayer.stop();
     if (audioStatus) {
       audioStatus.textContent = "No audio available";
       audioStatus.className = "audio-status no-audio";
@@ -533,15 +1826,61 @@ async function loadSceneAudio(
         audioPlayer.setLoopMode("loop");
       }
 
-      await audioPlayer.playSegment(audioBuffer, startTime, endTime);
+      audioPlayer.setPlaybackSpeed(state.playbackSpeed);
+      audioPlayer.setTransposition(state.transposition);
+      audioPlayer.setCrossfade(state.crossfade);
+      audioPlayer.setMix(state.referenceGain, state.shapeGain);
+      const segmentId = getSceneSegmentId(scene);
+      if (
+        state.isAutoMode &&
+        audioPlayer.getIsPlaying() &&
+        audioPlayer.getCurrentSegmentId() === segmentId
+      ) {
+        // Auto mode started this scene the moment the previous one ended
+        console.log(`Scene ${scene.index} is already playing`);
+      } else {
+        await audioPlayer.playSegment(
+          audioBuffer,
+          startTime,
+          endTime,
+          scene.referenceClip.warpSegments,
+          {
+            id: segmentId,
+            barLength: getBarSeconds(scene.referenceClip),
+            quantize: state.launchQuantization === "bar",
+            shapeNotes: getSynthNotes(scene, state.synthPattern),
+            clicks: state.metronome
+              ? getMetronomeClicks(scene.referenceClip)
+              : undefined,
+            countIn: state.countIn
+              ? Metronome.getCountIn(
+                  projectTempoMap,
+                  getGridOrigin(scene.referenceClip),
+                )
+              : undefined,
+          },
+        );
+      }
       eventSystem.dispatch({ type: "AUDIO_STARTED" });
 
+      if (state.isAutoMode) {
+        queueNextScene(scene, state, requestId);
+      }
+
       if (audioStatus) {
         const regionText =
           startTime !== undefined && endTime !== undefined
             ? ` (${startTime.toFixed(1)}s - ${endTime.toFixed(1)}s)`
             : "";
-        audioStatus.textContent = `🔊 Playing (looped)${regionText}`;
+        const speedText =
+          state.playbackSpeed !== 1
+            ? ` at ${Math.round(state.playbackSpeed * 100)}%`
+            : "";
+        const transpositionText =
+          state.transposition !== 0
+            ? `, ${formatTransposition(state.transposition)}`
+            : "";
+        audioStatus.textContent = `🔊 Playing (looped)${regionText}${speedText}${transpositionText}`;
         audioStatus.className = "audio-status playing";
       }
     } else {
@@ -564,6 +1903,111 @@ async function loadSceneAudio(
   }
 }
 
+// Schedule the scene after this one to take over as this one ends
+async function queueNextScene(
+  scene: Scene,
+  state: AppState,
+  requestId?: string,
+) {
+  if (!sceneManager || !projectZip) return;
+
+  const total = sceneManager.getTotalScenes();
+  const next = sceneManager.getScene(scene.index < total ? scene.index + 1 : 1);
+  const clip = next?.referenceClip;
+  if (!next || !clip?.audioFile) return;
+
+  const buffer = await audioPlayer.loadAudioFromZip(projectZip, clip.audioFile);
+  if (!buffer || (requestId && currentAudioRequestId !== requestId)) return;
+
+  audioPlayer.scheduleNext(
+    buffer,
+    clip.finalAudioStart,
+    clip.finalAudioEnd,
+    clip.warpSegments,
+    {
+      id: getSceneSegmentId(next),
+      barLength: getBarSeconds(clip),
+      shapeNotes: getSynthNotes(next, state.synthPattern),
+      clicks: state.metronome ? getMetronomeClicks(clip) : undefined,
+    },
+  );
+}
+
+// The scene's shape as the synth plays it, in seconds from the start of the
+// reference segment; the shape's loop repeats for as long as the reference's
+function getSynthNotes(scene: Scene, pattern: SynthPattern): Note[] {
+  const shapeClip = scene.shapeClip;
+  if (pattern === "off" || !shapeClip || !scene.referenceClip) return [];
+
+  const shape = HarmonicSlicer.getRegion(shapeClip);
+  const reference = HarmonicSlicer.getRegion(scene.referenceClip);
+  const shapeLength = shape.end - shape.start;
+  const referenceLength = reference.end - reference.start;
+  if (shapeLength <= 0) return [];
+
+  const loop = ShapeSynth.arrange(
+    scene.shapeNotes
+      .filter(
+        (note) =>
+          note.time < shape.end && note.time + note.duration > shape.start,
+      )
+      .map((note) => {
+        const time = Math.max(note.time, shape.start);
+        const end = Math.min(note.time + note.duration, shape.end);
+        return { ...note, time: time - shape.start, duration: end - time };
+      }),
+    pattern,
+  );
+
+  const origin = getGridOrigin(scene.referenceClip);
+  const notes: Note[] = [];
+  for (let offset = 0; offset < referenceLength; offset += shapeLength) {
+    loop
+      .filter((note) => offset + note.time < referenceLength)
+      .forEach((note) => {
+        const time = projectTempoMap.durationInSeconds(
+          origin,
+          offset + note.time,
+        );
+        notes.push({
+          ...note,
+          time,
+          duration:
+            projectTempoMap.durationInSeconds(
+              origin,
+              offset + note.time + note.duration,
+            ) - time,
+        });
+      });
+  }
+  return notes;
+}
+
+// Clicks for a reference segment, with bars counted from where the clip's loop starts
+function getMetronomeClicks(clip: Clip): Click[] {
+  const { start, end } = HarmonicSlicer.getRegion(clip);
+  return Metronome.getClicks(projectTempoMap, getGridOrigin(clip), end - start);
+}
+
+// Project beat where a reference segment starts, the downbeat its grid counts from
+function getGridOrigin(clip: Clip): number {
+  return clip.time + HarmonicSlicer.getRegion(clip).start;
+}
+
+function getSceneSegmentId(scene: Scene): string {
+  return `scene-${scene.index}`;
+}
+
+// Seconds per bar where a clip's loop starts, for launches quantized to the bar
+function getBarSeconds(clip: Clip): number {
+  const origin = getGridOrigin(clip);
+  const { numerator, denominator } = projectTempoMap.getTimeSignatureAt(origin);
+  return projectTempoMap.durationInSeconds(
+    origin,
+    numerator * (4 / denominator),
+  );
+}
+
 function updatePlayPauseButton(state: AppState) {
   const playPauseBtn = document.getElementById(
     "play-pause-btn",
@@ -600,6 +2044,33 @@ document.addEventListener("keydown", (event) => {
   }
 });
 
+// Check the set theory algorithms against every pitch-class subset during development
+if (import.meta.env.DEV) {
+  (["forte", "rahn"] as const).forEach((convention) => {
+    const report = PitchClassSetVerifier.verifyAll(convention);
+    if (report.failures.length > 0) {
+      console.warn(
+        `Pitch class set verification (${convention}) failed:`,
+        report.failures,
+      );
+    } else {
+      console.log(
+        `Pitch class set verification (${convention}): ${report.subsetsChecked} subsets, ${report.setClassesFound} set classes OK`,
+      );
+    }
+  });
+
+  // And the MIDI and MusicXML readers against hand-made files
+  const importReport = ScoreImportVerifier.verifyAll();
+  if (importReport.failures.length > 0) {
+    console.warn("Score import verification failed:", importReport.failures);
+  } else {
+    console.log(
+      `Score import verification: ${importReport.casesChecked} cases OK`,
+    );
+  }
+}
+
 // Initialize the app
 document.addEventListener("DOMContentLoaded", () => {
   const app = document.querySelector<HTMLDivElement>("#app");
@@ -607,13 +2078,17 @@ document.addEventListener("DOMContentLoaded", () => {
   if (app) {
     app.innerHTML = `
       <div class="container">
+        <div id="external-audio-panel"></div>
         <div id="scene-container"></div>
 
         <div class="file-input-container">
-          <input type="file" id="file-input" accept=".dawproject">
-          <label for="file-input" class="file-label">Choose DAWproject file</label>
+          <input type="file" id="file-input" accept=".dawproject,.mid,.midi,.musicxml,.xml,.mxl,audio/*" multiple>
+          <label for="file-input" class="file-label">Choose DAWproject, MIDI or MusicXML file (plus audio)</label>
           <span id="file-name">No file selected</span>
         </div>
+
+        <div id="diagnostics-panel"></div>
+        <div id="track-roles-panel"></div>
       </div>
     `;
 
@@ -622,18 +2097,40 @@ document.addEventListener("DOMContentLoaded", () => {
 
     fileInput?.addEventListener("change", (event) => {
       const target = event.target as HTMLInputElement;
-      const file = target.files?.[0];
+      const files = Array.from(target.files ?? []);
+      const isAudio = (candidate: File) =>
+        candidate.type.startsWith("audio/") ||
+        /\.(wav|mp3|ogg|flac|m4a|aiff?)$/i.test(candidate.name);
+      // A score can come with the audio file it should be practised with
+      const file = files.find((candidate) => !isAudio(candidate));
+      const audioFile = files.find(isAudio);
 
       if (file) {
         if (fileName) {
-          fileName.textContent = file.name;
+          fileName.textContent = audioFile
+            ? `${file.name} + ${audioFile.name}`
+            : file.name;
         }
-        loadDAWProject(file);
+        loadDAWProject(file, audioFile);
       }
     });
 
     // Check if there's a dawproject file in the current directory we can load
     checkForLocalFile();
+
+    followSlices();
+    followArrangement();
+
+    document.addEventListener("keydown", (event) => {
+      if (
+        eventSystem.getState().isEditMode &&
+        (event.ctrlKey || event.metaKey) &&
+        event.key === "z"
+      ) {
+        event.preventDefault();
+        undoEdit();
+      }
+    });
   }
 });
 
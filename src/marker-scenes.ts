@@ -0,0 +1,87 @@
+import type { AudioRegion, Clip, Note, SceneData, Track } from './dawproject-parser';
+import type { TempoMap } from './tempo-map';
+import type { WarpSegment } from './warp-map';
+
+export interface Marker {
+  time: number; // beats
+  name: string;
+}
+
+export class MarkerScenes {
+  /**
+   * One scene per marker-to-marker region of the timeline, the last one running to the
+   * end. Each track's slot holds a clip cut from its timeline clips in that region.
+   */
+  static derive(tracks: Track[], markers: Marker[], end: number, tempoMap: TempoMap): SceneData[] {
+    const sorted = [...markers].sort((a, b) => a.time - b.time);
+    const scenes: SceneData[] = [];
+    
+    sorted.forEach((marker, i) => {
+      const regionEnd = i + 1 < sorted.length ? sorted[i + 1].time : end;
+      if (regionEnd <= marker.time) return;
+      
+      scenes.push({
+        id: `marker-${i + 1}`,
+        name: marker.name || `Marker ${i + 1}`,
+        clipSlots: tracks.map(track => ({
+          trackId: track.id,
+          clip: this.cutClip(track, marker.time, regionEnd, tempoMap),
+          hasStop: false
+        })),
+        markerRegion: { start: marker.time, end: regionEnd }
+      });
+    });
+    
+    return scenes;
+  }
+  
+  /**
+   * A looping clip holding what a track plays between two timeline positions: its notes,
+   * and the reference audio region that overlaps the span most. Silence pads the audio
+   * out to the span, so it starts and loops together with the notes.
+   */
+  static cutClip(track: Track, start: number, end: number, tempoMap: TempoMap): Clip | undefined {
+    const length = end - start;
+    
+    const notes: Note[] = [];
+    track.clips
+      .filter(clip => clip.time < end && clip.time + clip.duration > start)
+      .forEach(clip => clip.notes.forEach(note => {
+        const noteStart = clip.time + note.time - clip.playStart;
+        const from = Math.max(noteStart, start, clip.time);
+        const to = Math.min(noteStart + note.duration, end, clip.time + clip.duration);
+        if (to > from) notes.push({ ...note, time: from - start, duration: to - from });
+      }));
+    
+    const overlap = (region: AudioRegion) =>
+      Math.min(region.time + region.duration, end) - Math.max(region.time, start);
+    const region = track.clips
+      .flatMap(clip => clip.audioRegions ?? [])
+      .filter(region => overlap(region) > 0)
+      .sort((a, b) => overlap(b) - overlap(a))[0];
+    
+    if (notes.length === 0 && !region) return undefined;
+    
+    const clip: Clip = { time: 0, duration: length, playStart: 0, loopStart: 0, loopEnd: length, notes };
+    if (region) {
+      const from = Math.max(region.time, start);
+      clip.audioFile = region.audioFile;
+      clip.finalAudioStart = region.sourceStart + tempoMap.durationInSeconds(region.time, from - region.time);
+      clip.finalAudioEnd = clip.finalAudioStart + tempoMap.durationInSeconds(from, overlap(region));
+      
+      const to = Math.min(region.time + region.duration, end);
+      if (from > start || to < end) {
+        const audio: WarpSegment = {
+          sourceStart: clip.finalAudioStart,
+          sourceEnd: clip.finalAudioEnd,
+          duration: clip.finalAudioEnd - clip.finalAudioStart
+        };
+        const silence = (from: number, to: number): WarpSegment[] => to > from
+          ? [{ sourceStart: 0, sourceEnd: 0, duration: tempoMap.durationInSeconds(from, to - from), silent: true }]
+          : [];
+        clip.warpSegments = [...silence(start, from), audio, ...silence(to, end)];
+      }
+    }
+    return clip;
+  }
+}
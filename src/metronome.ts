@@ -0,0 +1,66 @@
+import type { TempoMap } from './tempo-map';
+
+/**
+ * A metronome click, in seconds from the start of what it plays along with
+ */
+export interface Click {
+  time: number;
+  accent: boolean; // first beat of a bar
+}
+
+const CLICK_LENGTH = 0.03;    // seconds
+const CLICK_DECAY = 0.008;    // seconds for a click to fade to about a third
+const ACCENT_FREQUENCY = 1500;
+const BEAT_FREQUENCY = 1000;
+const ACCENT_LEVEL = 0.6;
+const BEAT_LEVEL = 0.35;
+
+export class Metronome {
+  /**
+   * Clicks on every beat for a length of beats from an origin, with bars counted
+   * from the origin. Beats follow the time signature's unit, so 6/8 clicks eighths.
+   */
+  static getClicks(tempoMap: TempoMap, origin: number, length: number): Click[] {
+    const clicks: Click[] = [];
+    for (let bar = origin; bar < origin + length; ) {
+      const { numerator, denominator } = tempoMap.getTimeSignatureAt(bar);
+      const beat = 4 / denominator;
+      for (let i = 0; i < numerator && bar + i * beat < origin + length; i++) {
+        clicks.push({ time: tempoMap.durationInSeconds(origin, bar + i * beat - origin), accent: i === 0 });
+      }
+      bar += numerator * beat;
+    }
+    return clicks;
+  }
+
+  /**
+   * One bar of clicks leading into an origin, at the tempo and time signature there
+   */
+  static getCountIn(tempoMap: TempoMap, origin: number): { clicks: Click[]; length: number } {
+    const { numerator, denominator } = tempoMap.getTimeSignatureAt(origin);
+    const beatSeconds = (60 / tempoMap.getTempoAt(origin)) * (4 / denominator);
+    const clicks = Array.from({ length: numerator }, (_, i) => ({ time: i * beatSeconds, accent: i === 0 }));
+    return { clicks, length: numerator * beatSeconds };
+  }
+
+  /**
+   * Render clicks (times in seconds) as short decaying sine blips, mono
+   */
+  static render(clicks: Click[], length: number, sampleRate: number): Float32Array {
+    const output = new Float32Array(Math.max(1, Math.round(length * sampleRate)));
+
+    clicks.forEach(click => {
+      const frequency = click.accent ? ACCENT_FREQUENCY : BEAT_FREQUENCY;
+      const level = click.accent ? ACCENT_LEVEL : BEAT_LEVEL;
+      const start = Math.round(click.time * sampleRate);
+      const end = Math.min(output.length, start + Math.round(CLICK_LENGTH * sampleRate));
+
+      for (let i = Math.max(0, start); i < end; i++) {
+        const t = (i - start) / sampleRate;
+        output[i] += level * Math.exp(-t / CLICK_DECAY) * Math.sin(2 * Math.PI * frequency * t);
+      }
+    });
+
+    return output;
+  }
+}
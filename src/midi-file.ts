@@ -0,0 +1,142 @@
+import type { Note } from './dawproject-parser';
+import type { TempoPoint, TimeSignaturePoint } from './tempo-map';
+import type { ImportedScore, ImportedTrack } from './score-import';
+import type { Marker } from './marker-scenes';
+
+const PERCUSSION_CHANNEL = 9; // General MIDI drums, left out of the harmony
+
+export class MidiFileReader {
+  /**
+   * Read a Standard MIDI File (format 0 or 1) into tracks of notes in beats.
+   * Tracks that play on several channels are split per channel.
+   */
+  static read(data: Uint8Array): ImportedScore {
+    let pos = 0;
+    const fail = (message: string): never => {
+      throw new Error(`Invalid MIDI file: ${message} (byte ${pos})`);
+    };
+    const readUint = (bytes: number) => {
+      if (pos + bytes > data.length) fail('unexpected end of file');
+      let value = 0;
+      for (let i = 0; i < bytes; i++) value = value * 256 + data[pos++];
+      return value;
+    };
+    const readVarLength = () => {
+      let value = 0;
+      for (let i = 0; i < 4; i++) {
+        const byte = readUint(1);
+        value = value * 128 + (byte & 0x7f);
+        if (!(byte & 0x80)) return value;
+      }
+      return fail('variable-length number longer than 4 bytes');
+    };
+    const readChunkType = () => String.fromCharCode(...data.subarray(pos, pos + 4));
+
+    if (readChunkType() !== 'MThd') fail('missing MThd header');
+    pos += 4;
+    const headerLength = readUint(4);
+    const headerEnd = pos + headerLength;
+    const format = readUint(2);
+    const trackCount = readUint(2);
+    const division = readUint(2);
+    pos = headerEnd;
+
+    if (format > 1) fail(`format ${format} (independent sequences) is not supported`);
+    if (division & 0x8000) fail('SMPTE time division is not supported');
+
+    const tempoPoints: TempoPoint[] = [];
+    const timeSignaturePoints: TimeSignaturePoint[] = [];
+    const markers: Marker[] = [];
+    const tracks: ImportedTrack[] = [];
+    let length = 0;
+
+    for (let trackIndex = 0; trackIndex < trackCount && pos < data.length; trackIndex++) {
+      if (readChunkType() !== 'MTrk') fail('missing MTrk chunk');
+      pos += 4;
+      const trackLength = readUint(4);
+      const trackEnd = pos + trackLength;
+
+      let ticks = 0;
+      let runningStatus = 0;
+      let trackName = '';
+      const notesByChannel = new Map<number, Note[]>();
+      const sounding = new Map<number, { note: Note; start: number }[]>(); // channel * 128 + key
+
+      while (pos < trackEnd) {
+        ticks += readVarLength();
+        const beats = ticks / division;
+
+        let status = data[pos];
+        if (status & 0x80) {
+          pos++;
+        } else {
+          if (!runningStatus) fail('data byte without a status');
+          status = runningStatus;
+        }
+
+        if (status === 0xff) {
+          const type = readUint(1);
+          const metaLength = readVarLength();
+          const metaData = data.subarray(pos, pos + metaLength);
+          pos += metaLength;
+          const text = () => new TextDecoder().decode(metaData);
+
+          if (type === 0x51 && metaLength === 3) {
+            const microsecondsPerBeat = (metaData[0] << 16) | (metaData[1] << 8) | metaData[2];
+            tempoPoints.push({ time: beats, bpm: 60000000 / microsecondsPerBeat, interpolation: 'hold' });
+          } else if (type === 0x58 && metaLength >= 2) {
+            timeSignaturePoints.push({ time: beats, numerator: metaData[0], denominator: 2 ** metaData[1] });
+          } else if (type === 0x03) {
+            trackName = text();
+          } else if (type === 0x06 || type === 0x07) {
+            // Markers and cue points both start a scene
+            markers.push({ time: beats, name: text() });
+          } else if (type === 0x2f) {
+            break;
+          }
+          continue;
+        }
+
+        if (status === 0xf0 || status === 0xf7) {
+          pos += readVarLength();
+          continue;
+        }
+
+        runningStatus = status;
+        const command = status & 0xf0;
+        const channel = status & 0x0f;
+        const data1 = readUint(1);
+        const data2 = command === 0xc0 || command === 0xd0 ? 0 : readUint(1);
+
+        if (command !== 0x90 && command !== 0x80) continue;
+
+        const slot = channel * 128 + data1;
+        if (command === 0x90 && data2 > 0) {
+          const note: Note = { time: beats, duration: 0, key: data1, velocity: data2 / 127, channel };
+          if (!sounding.has(slot)) sounding.set(slot, []);
+          sounding.get(slot)!.push({ note, start: beats });
+          if (channel !== PERCUSSION_CHANNEL) {
+            if (!notesByChannel.has(channel)) notesByChannel.set(channel, []);
+            notesByChannel.get(channel)!.push(note);
+          }
+        } else {
+          // Note off (or note on with velocity 0) ends the oldest sounding note
+          const started = sounding.get(slot)?.shift();
+          if (started) started.note.duration = beats - started.start;
+          length = Math.max(length, beats);
+        }
+      }
+      pos = trackEnd;
+
+      const channels = Array.from(notesByChannel.keys()).sort((a, b) => a - b);
+      channels.forEach(channel => {
+        const notes = notesByChannel.get(channel)!.filter(note => note.duration > 0);
+        if (notes.length === 0) return;
+        const name = trackName || `Track ${trackIndex + 1}`;
+        tracks.push({ name: channels.length > 1 ? `${name} (channel ${channel + 1})` : name, notes });
+      });
+    }
+
+    return { tracks, tempoPoints, timeSignaturePoints, markers, length };
+  }
+}
@@ -0,0 +1,148 @@
+import type { Note } from './dawproject-parser';
+import type { TempoPoint, TimeSignaturePoint } from './tempo-map';
+import type { ImportedScore, ImportedTrack } from './score-import';
+import type { Marker } from './marker-scenes';
+import { parseXml } from './xml';
+import type { XmlElement } from './xml';
+
+const STEP_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const DEFAULT_VELOCITY = 0.8;
+
+export class MusicXmlReader {
+  /**
+   * Read a partwise MusicXML score into one track per part, in beats (quarter notes).
+   * Measures, tempo and meter come from the first part; rehearsal marks become markers.
+   * Repeats are not unfolded.
+   */
+  static read(source: string): ImportedScore {
+    const root = parseXml(source);
+    if (root.tagName === 'score-timewise') {
+      throw new Error('Timewise MusicXML is not supported; export the score as partwise');
+    }
+    if (root.tagName !== 'score-partwise') {
+      throw new Error(`Not a MusicXML score: root element is <${root.tagName}>`);
+    }
+
+    const partNames = new Map<string, string>();
+    root.child('part-list')?.childrenNamed('score-part').forEach(scorePart => {
+      partNames.set(scorePart.getAttribute('id') || '', scorePart.child('part-name')?.textContent.trim() || '');
+    });
+
+    const tempoPoints: TempoPoint[] = [];
+    const timeSignaturePoints: TimeSignaturePoint[] = [];
+    const markers: Marker[] = [];
+    const measures: number[] = [];
+    const tracks: ImportedTrack[] = [];
+    let length = 0;
+
+    root.childrenNamed('part').forEach((part, partIndex) => {
+      const isFirstPart = partIndex === 0;
+      const notes: Note[] = [];
+      const tied = new Map<number, Note>(); // key -> note a tie continues
+      let divisions = 1;
+      let measureStart = 0;
+
+      part.childrenNamed('measure').forEach(measure => {
+        if (isFirstPart) measures.push(measureStart);
+        let position = 0; // divisions since the measure start
+        let measureLength = 0;
+        let lastNoteStart = 0;
+        const beatsAt = (offset: number) => measureStart + offset / divisions;
+
+        measure.children.forEach(element => {
+          switch (element.tagName) {
+            case 'attributes': {
+              divisions = this.readNumber(element.child('divisions'), divisions);
+              const time = element.child('time');
+              if (isFirstPart && time?.child('beats')) {
+                timeSignaturePoints.push({
+                  time: beatsAt(position),
+                  numerator: parseInt(time.child('beats')!.textContent) || 4,
+                  denominator: parseInt(time.child('beat-type')?.textContent || '') || 4
+                });
+              }
+              break;
+            }
+            case 'direction':
+            case 'sound': {
+              if (!isFirstPart) break;
+              const sound = element.tagName === 'sound' ? element : element.child('sound');
+              const tempo = parseFloat(sound?.getAttribute('tempo') || '');
+              if (tempo > 0) tempoPoints.push({ time: beatsAt(position), bpm: tempo, interpolation: 'hold' });
+              element.findAll('rehearsal').forEach(rehearsal => {
+                markers.push({ time: beatsAt(position), name: rehearsal.textContent.trim() });
+              });
+              break;
+            }
+            case 'backup':
+              position -= this.readNumber(element.child('duration'), 0);
+              break;
+            case 'forward':
+              position += this.readNumber(element.child('duration'), 0);
+              measureLength = Math.max(measureLength, position);
+              break;
+            case 'note': {
+              // Grace and cue notes take no time in the measure
+              if (element.child('grace') || element.child('cue')) break;
+
+              const duration = this.readNumber(element.child('duration'), 0);
+              const isChordTone = !!element.child('chord');
+              const start = isChordTone ? lastNoteStart : position;
+              if (!isChordTone) {
+                lastNoteStart = position;
+                position += duration;
+                measureLength = Math.max(measureLength, position);
+              }
+
+              const key = this.readKey(element.child('pitch'));
+              if (key === undefined) break;
+
+              const ties = element.childrenNamed('tie').map(tie => tie.getAttribute('type'));
+              const continued = ties.includes('stop') ? tied.get(key) : undefined;
+              let note: Note;
+              if (continued) {
+                continued.duration += duration / divisions;
+                note = continued;
+              } else {
+                note = { time: beatsAt(start), duration: duration / divisions, key, velocity: DEFAULT_VELOCITY, channel: 0 };
+                notes.push(note);
+              }
+              if (ties.includes('start')) tied.set(key, note);
+              else tied.delete(key);
+
+              length = Math.max(length, note.time + note.duration);
+              break;
+            }
+          }
+        });
+
+        measureStart += measureLength / divisions;
+        length = Math.max(length, measureStart);
+      });
+
+      if (notes.length > 0) {
+        tracks.push({ name: partNames.get(part.getAttribute('id') || '') || `Part ${partIndex + 1}`, notes });
+      }
+    });
+
+    return { tracks, tempoPoints, timeSignaturePoints, markers, measures, length };
+  }
+
+  /**
+   * Helper: MIDI key of a <pitch> element
+   */
+  private static readKey(pitch: XmlElement | null): number | undefined {
+    const step = pitch?.child('step')?.textContent.trim() || '';
+    if (!pitch || !(step in STEP_SEMITONES)) return undefined;
+
+    const alter = parseFloat(pitch.child('alter')?.textContent || '') || 0;
+    const octave = parseInt(pitch.child('octave')?.textContent || '');
+    if (isNaN(octave)) return undefined;
+    return (octave + 1) * 12 + STEP_SEMITONES[step] + Math.round(alter);
+  }
+
+  private static readNumber(element: XmlElement | null, fallback: number): number {
+    const value = parseFloat(element?.textContent || '');
+    return isFinite(value) ? value : fallback;
+  }
+}
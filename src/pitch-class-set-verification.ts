@@ -0,0 +1,133 @@
+import { PitchClassSetAnalyzer } from './pitch-class-set';
+import type { PrimeFormConvention } from './pitch-class-set';
+import { SetClassCatalog } from './set-class-catalog';
+
+export interface VerificationReport {
+  convention: PrimeFormConvention;
+  subsetsChecked: number;
+  setClassesFound: number;
+  failures: string[];
+}
+
+export class PitchClassSetVerifier {
+  /**
+   * Check normal form, prime form and interval vector for all 4096 pitch-class subsets
+   */
+  static verifyAll(convention: PrimeFormConvention): VerificationReport {
+    const failures: string[] = [];
+    const primeForms = new Set<string>();
+
+    for (let mask = 0; mask < 4096; mask++) {
+      const pcs = this.fromMask(mask);
+      const label = `{${pcs.join(',')}}`;
+      const result = PitchClassSetAnalyzer.analyze(pcs, convention);
+      const primeString = result.primeForm.join(',');
+      primeForms.add(primeString);
+
+      // Normal form must be a rotation of the sorted set with the smallest possible span
+      if (!this.isRotationOf(result.normalForm, pcs)) {
+        failures.push(`${label}: normal form [${result.normalForm}] is not a rotation of the set`);
+      } else if (pcs.length > 0 && this.span(result.normalForm) !== this.minimalSpan(pcs)) {
+        failures.push(`${label}: normal form [${result.normalForm}] does not have the smallest span`);
+      }
+
+      // Normal form (up to transposition) and prime form must be invariant under Tn, and prime form under TnI
+      const zeroedNormal = this.transposeToZero(result.normalForm).join(',');
+      for (let n = 0; n < 12; n++) {
+        const transposed = pcs.map(pc => (pc + n) % 12);
+        const inverted = pcs.map(pc => (n - pc + 12) % 12);
+
+        const transposedNormal = PitchClassSetAnalyzer.getNormalForm(transposed, convention);
+        if (this.transposeToZero(transposedNormal).join(',') !== zeroedNormal) {
+          failures.push(`${label}: normal form changes under T${n}`);
+        }
+        if (PitchClassSetAnalyzer.getPrimeForm(transposedNormal, convention).join(',') !== primeString) {
+          failures.push(`${label}: prime form changes under T${n}`);
+        }
+
+        const invertedNormal = PitchClassSetAnalyzer.getNormalForm(inverted, convention);
+        if (PitchClassSetAnalyzer.getPrimeForm(invertedNormal, convention).join(',') !== primeString) {
+          failures.push(`${label}: prime form changes under T${n}I`);
+        }
+      }
+
+      // Prime form must match the catalog entry for this convention
+      const setClass = SetClassCatalog.lookup(pcs);
+      if (!setClass) {
+        failures.push(`${label}: no catalog entry`);
+        continue;
+      }
+      const expectedPrime = convention === 'rahn' && setClass.rahnPrimeForm
+        ? setClass.rahnPrimeForm
+        : setClass.primeForm;
+      if (expectedPrime.join(',') !== primeString) {
+        failures.push(`${label}: prime form (${primeString}) differs from ${setClass.forteNumber} (${expectedPrime.join(',')})`);
+      }
+
+      // Interval vector must match a brute-force count and be shared with the set class
+      const expectedVector = this.countIntervalClasses(mask).join('');
+      if (result.interval.join('') !== expectedVector) {
+        failures.push(`${label}: interval vector <${result.interval.join('')}> should be <${expectedVector}>`);
+      }
+      const classVector = PitchClassSetAnalyzer.getIntervalVector(setClass.primeForm).join('');
+      if (classVector !== expectedVector) {
+        failures.push(`${label}: interval vector differs from ${setClass.forteNumber} <${classVector}>`);
+      }
+    }
+
+    if (primeForms.size !== 224) {
+      failures.push(`found ${primeForms.size} distinct prime forms, expected 224`);
+    }
+
+    return {
+      convention,
+      subsetsChecked: 4096,
+      setClassesFound: primeForms.size,
+      failures
+    };
+  }
+
+  private static fromMask(mask: number): number[] {
+    const pcs: number[] = [];
+    for (let pc = 0; pc < 12; pc++) {
+      if (mask & (1 << pc)) pcs.push(pc);
+    }
+    return pcs;
+  }
+
+  private static countIntervalClasses(mask: number): number[] {
+    const vector = [0, 0, 0, 0, 0, 0];
+    for (let a = 0; a < 12; a++) {
+      for (let b = a + 1; b < 12; b++) {
+        if (mask & (1 << a) && mask & (1 << b)) {
+          vector[Math.min(b - a, 12 - (b - a)) - 1]++;
+        }
+      }
+    }
+    return vector;
+  }
+
+  private static isRotationOf(ordered: number[], sorted: number[]): boolean {
+    if (ordered.length !== sorted.length) return false;
+    if (ordered.length === 0) return true;
+    const start = sorted.indexOf(ordered[0]);
+    return start >= 0 && ordered.every((pc, i) => pc === sorted[(start + i) % sorted.length]);
+  }
+
+  private static span(ordered: number[]): number {
+    return (ordered[ordered.length - 1] - ordered[0] + 12) % 12;
+  }
+
+  private static minimalSpan(sorted: number[]): number {
+    let min = 12;
+    for (let i = 0; i < sorted.length; i++) {
+      const last = sorted[(i + sorted.length - 1) % sorted.length];
+      min = Math.min(min, (last - sorted[i] + 12) % 12);
+    }
+    return min;
+  }
+
+  private static transposeToZero(pcs: number[]): number[] {
+    return pcs.map(pc => (pc - pcs[0] + 12) % 12);
+  }
+}
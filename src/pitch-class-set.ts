@@ -1,87 +1,104 @@
 import type { Clip } from './dawproject-parser';
+import { SetClassCatalog } from './set-class-catalog';
 
 export interface PitchClassSet {
   pitchClasses: Set<number>;
   normalForm: number[];
   primeForm: number[];
   interval: number[];
-  name?: string;
+  name?: string;              // Forte number, e.g. "4-Z15"
+  zRelation?: string;         // Forte number of the Z-related set class
+  complement?: string;        // Forte number of the complement set class
+  descriptiveName?: string;   // e.g. "dominant ninth chord"
 }
 
+// Tie-breaking rule for normal and prime forms when spans are equal:
+// Forte compares intervals from the first note upwards (first-second, first-third, ...),
+// Rahn compares them from the last note downwards (first-penultimate, first-antepenultimate, ...)
+export type PrimeFormConvention = 'forte' | 'rahn';
+
 export class PitchClassSetAnalyzer {
+  private static convention: PrimeFormConvention = 'forte';
+  
+  /**
+   * Set the packing convention used for normal and prime forms
+   */
+  static setConvention(convention: PrimeFormConvention): void {
+    this.convention = convention;
+  }
+  
+  static getConvention(): PrimeFormConvention {
+    return this.convention;
+  }
+  
   /**
    * Extract pitch classes from a clip's notes
    */
-  static extractPitchClassSet(clip: Clip): PitchClassSet {
-    const pitchClasses = new Set<number>();
-    
+  static extractPitchClassSet(clip: Clip, convention: PrimeFormConvention = this.convention): PitchClassSet {
     // Extract unique pitch classes (mod 12)
-    clip.notes.forEach(note => {
-      const pc = note.key % 12;
-      pitchClasses.add(pc);
-    });
+    return this.analyze(clip.notes.map(note => note.key), convention);
+  }
+  
+  /**
+   * Analyze an arbitrary collection of pitches or pitch classes
+   */
+  static analyze(pitches: Iterable<number>, convention: PrimeFormConvention = this.convention): PitchClassSet {
+    const pitchClasses = new Set<number>();
+    for (const pitch of pitches) {
+      pitchClasses.add(((pitch % 12) + 12) % 12);
+    }
     
-    const normalForm = this.getNormalForm(Array.from(pitchClasses));
-    const primeForm = this.getPrimeForm(normalForm);
+    const normalForm = this.getNormalForm(Array.from(pitchClasses), convention);
+    const primeForm = this.getPrimeForm(normalForm, convention);
     const interval = this.getIntervalVector(Array.from(pitchClasses));
+    const setClass = SetClassCatalog.lookup(pitchClasses);
     
     return {
       pitchClasses,
       normalForm,
       primeForm,
       interval,
-      name: this.getSetName(primeForm)
+      name: setClass?.forteNumber,
+      zRelation: setClass?.zRelation,
+      complement: setClass?.complement,
+      descriptiveName: setClass?.descriptiveName
     };
   }
   
   /**
-   * Get the normal form of a pitch class set
+   * Get the normal form (most compact ordering, untransposed) of a pitch class set
    */
-  static getNormalForm(pcs: number[]): number[] {
+  static getNormalForm(pcs: number[], convention: PrimeFormConvention = this.convention): number[] {
     if (pcs.length === 0) return [];
     
-    // Sort the pitch classes
-    const sorted = [...pcs].sort((a, b) => a - b);
+    // Sort the unique pitch classes
+    const sorted = Array.from(new Set(pcs.map(pc => ((pc % 12) + 12) % 12))).sort((a, b) => a - b);
     
     let bestRotation = sorted;
-    let minSpan = 12;
     
-    // Try all rotations
-    for (let i = 0; i < sorted.length; i++) {
+    // Try all rotations; on a complete tie the rotation starting on the lowest pitch class wins
+    for (let i = 1; i < sorted.length; i++) {
       const rotation = this.rotate(sorted, i);
-      const span = (rotation[rotation.length - 1] - rotation[0] + 12) % 12;
-      
-      if (span < minSpan) {
-        minSpan = span;
+      if (this.comparePacking(this.transposeToZero(rotation), this.transposeToZero(bestRotation), convention) < 0) {
         bestRotation = rotation;
-      } else if (span === minSpan) {
-        // If spans are equal, choose the one that's most packed to the left
-        if (this.isMorePackedLeft(rotation, bestRotation)) {
-          bestRotation = rotation;
-        }
       }
     }
     
-    // Transpose to start from 0
-    const first = bestRotation[0];
-    return bestRotation.map(pc => (pc - first + 12) % 12);
+    return bestRotation;
   }
   
   /**
-   * Get the prime form (most compact normal or inverted form)
+   * Get the prime form (most compact of the normal form and its inversion, transposed to 0)
    */
-  static getPrimeForm(normalForm: number[]): number[] {
+  static getPrimeForm(normalForm: number[], convention: PrimeFormConvention = this.convention): number[] {
     if (normalForm.length === 0) return [];
     
-    // Get inversion
-    const inverted = [0, ...normalForm.slice(1).reverse().map(pc => (12 - pc) % 12)];
-    const invertedNormal = this.getNormalForm(inverted);
+    const original = this.transposeToZero(this.getNormalForm(normalForm, convention));
+    const inverted = this.transposeToZero(
+      this.getNormalForm(normalForm.map(pc => (12 - pc) % 12), convention)
+    );
     
-    // Compare and return the more compact form
-    if (this.isMoreCompact(invertedNormal, normalForm)) {
-      return invertedNormal;
-    }
-    return normalForm;
+    return this.comparePacking(inverted, original, convention) < 0 ? inverted : original;
   }
   
   /**
@@ -113,86 +130,29 @@ export class PitchClassSetAnalyzer {
   }
   
   /**
-   * Helper: Check if first array is more packed to the left
+   * Helper: Transpose an ordered set so that it starts on 0
    */
-  private static isMorePackedLeft(a: number[], b: number[]): boolean {
-    for (let i = 1; i < Math.min(a.length, b.length); i++) {
-      const aInterval = (a[i] - a[0] + 12) % 12;
-      const bInterval = (b[i] - b[0] + 12) % 12;
-      if (aInterval < bInterval) return true;
-      if (aInterval > bInterval) return false;
-    }
-    return false;
-  }
-  
-  /**
-   * Helper: Check if first form is more compact
-   */
-  private static isMoreCompact(a: number[], b: number[]): boolean {
-    if (a.length !== b.length) return a.length < b.length;
-    
-    const aSpan = a[a.length - 1];
-    const bSpan = b[b.length - 1];
-    
-    if (aSpan !== bSpan) return aSpan < bSpan;
-    
-    return this.isMorePackedLeft(a, b);
+  private static transposeToZero(pcs: number[]): number[] {
+    return pcs.map(pc => (pc - pcs[0] + 12) % 12);
   }
   
   /**
-   * Get common name for pitch class sets (Forte numbers)
+   * Helper: Compare two zero-based orderings of equal size; negative if the first is more packed
    */
-  private static getSetName(primeForm: number[]): string | undefined {
-    const primeString = primeForm.join(',');
+  private static comparePacking(a: number[], b: number[], convention: PrimeFormConvention): number {
+    const last = a.length - 1;
+    if (a[last] !== b[last]) return a[last] - b[last];
     
-    // Common pitch class sets (Forte numbers)
-    const setNames: { [key: string]: string } = {
-      // Trichords
-      '0,1,2': '3-1',
-      '0,1,3': '3-2',
-      '0,1,4': '3-3',
-      '0,1,5': '3-4',
-      '0,1,6': '3-5',
-      '0,2,4': '3-6',
-      '0,2,5': '3-7',
-      '0,2,6': '3-8',
-      '0,2,7': '3-9',
-      '0,3,6': '3-10',
-      '0,3,7': '3-11',
-      '0,4,8': '3-12',
-      // Tetrachords
-      '0,1,2,3': '4-1',
-      '0,1,2,4': '4-2',
-      '0,1,3,4': '4-3',
-      '0,1,2,5': '4-4',
-      '0,1,2,6': '4-5',
-      '0,1,2,7': '4-6',
-      '0,1,4,5': '4-7',
-      '0,1,5,6': '4-8',
-      '0,1,6,7': '4-9',
-      '0,2,3,5': '4-10',
-      '0,1,3,5': '4-11',
-      '0,2,3,6': '4-12',
-      '0,1,3,6': '4-13',
-      '0,2,3,7': '4-14',
-      '0,1,4,6': '4-15',
-      '0,1,5,7': '4-16',
-      '0,3,4,7': '4-17',
-      '0,1,4,7': '4-18',
-      '0,1,4,8': '4-19',
-      '0,1,5,8': '4-20',
-      '0,2,4,6': '4-21',
-      '0,2,4,7': '4-22',
-      '0,2,5,7': '4-23',
-      '0,2,4,8': '4-24',
-      '0,2,6,8': '4-25',
-      '0,3,5,8': '4-26',
-      '0,2,5,8': '4-27',
-      '0,3,6,9': '4-28',
-      // Add more as needed
-    };
-    
-    return setNames[primeString];
+    if (convention === 'forte') {
+      for (let i = 1; i < last; i++) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+      }
+    } else {
+      for (let i = last - 1; i > 0; i--) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+      }
+    }
+    return 0;
   }
   
   /**
@@ -219,6 +179,15 @@ export class PitchClassSetAnalyzer {
     let result = `{${pcNames}}\\nNormal: ${normalFormStr}\\nPrime: ${primeFormStr}`;
     if (pcs.name) {
       result += `\\nForte: ${pcs.name}`;
+      if (pcs.descriptiveName) {
+        result += ` (${pcs.descriptiveName})`;
+      }
+    }
+    if (pcs.zRelation) {
+      result += `\\nZ-related: ${pcs.zRelation}`;
+    }
+    if (pcs.complement) {
+      result += `\\nComplement: ${pcs.complement}`;
     }
     result += `\\nInterval: ${intervalStr}`;
     
@@ -1,75 +1,208 @@
-import type { Track, Clip, SceneData } from './dawproject-parser';
+import type { Track, Clip, Note, SceneData } from './dawproject-parser';
 import { PitchClassSetAnalyzer } from './pitch-class-set';
 import type { PitchClassSet } from './pitch-class-set';
+import { ChordSymbolAnalyzer } from './chord-symbol';
+import type { ChordAnalysis } from './chord-symbol';
+import type { Voicing } from './voicing';
+import { TransformationAnalyzer } from './transformations';
+import type { SceneRelation } from './transformations';
+import { KeyAnalyzer } from './key-analysis';
+import type { Key, KeyAnalysis, RomanNumeral } from './key-analysis';
+import { HarmonicSlicer, DEFAULT_SLICE_GRID } from './harmonic-slices';
+import type { HarmonicSlice } from './harmonic-slices';
+import { TrackRoles } from './track-roles';
+import type { TrackRole, TrackRoleMap } from './track-roles';
+
+export interface ShapeLayer {
+  trackId: string;
+  trackName: string;
+  clip: Clip;
+  notes: Note[];     // the clip's notes as analysed, transposed when a transposition is set
+  included: boolean; // part of the scene's combined pitch class set
+  pitchClassSet?: PitchClassSet;
+  chord?: ChordAnalysis;
+}
 
 export interface Scene {
   index: number;
   name: string;
   referenceClip?: Clip;
-  shapeClip?: Clip;
+  shapeClip?: Clip;          // first included shape layer, the one that is edited and sliced
+  shapeLayers: ShapeLayer[]; // clips of every shape track, in track order
+  shapeNotes: Note[];        // notes of the included layers, as analysed
+  bassClip?: Clip;
+  melodyClip?: Clip;
   pitchClassSet?: PitchClassSet;
+  chord?: ChordAnalysis;
+  voicing?: Voicing;
+  key?: Key;
+  romanNumeral?: RomanNumeral;
+  slices?: HarmonicSlice[];   // verticalities of the shape clip, in time order
 }
 
 export class SceneManager {
   private scenes: Scene[] = [];
   private tracks: Map<string, Track> = new Map();
-  private referencesTrackId?: string;
-  private shapesTrackId?: string;
+  private roles: TrackRoleMap;
+  private keyAnalysis?: KeyAnalysis;
+  private sliceGrid: number;
+  private excludedLayers: Set<string> = new Set(); // track ids left out of the combined sets
+  private transposition: number; // semitones added to every analysed note
   
-  constructor(tracks: Track[], sceneData: SceneData[]) {
+  constructor(
+    tracks: Track[],
+    sceneData: SceneData[],
+    sliceGrid: number = DEFAULT_SLICE_GRID,
+    roles: TrackRoleMap = TrackRoles.assign(tracks, sceneData),
+    transposition: number = 0
+  ) {
+    this.sliceGrid = sliceGrid;
+    this.roles = roles;
+    this.transposition = transposition;
+    
     // Build track map
     tracks.forEach(track => {
       this.tracks.set(track.id, track);
-      
-      // Identify special tracks
-      if (track.name.toLowerCase().includes('reference')) {
-        this.referencesTrackId = track.id;
-        console.log(`Found references track: ${track.name} (${track.id})`);
-      }
-      if (track.name.toLowerCase().includes('shape')) {
-        this.shapesTrackId = track.id;
-        console.log(`Found shapes track: ${track.name} (${track.id})`);
-      }
     });
     
     console.log('All tracks:', tracks.map(t => `${t.name} (${t.id})`));
     
     this.buildScenes(sceneData);
+    this.analyzeKeys();
   }
   
   private buildScenes(sceneData: SceneData[]): void {
     this.scenes = sceneData.map((scene, index) => {
-      let referenceClip: Clip | undefined;
-      let shapeClip: Clip | undefined;
-      
-      // Find clips for reference and shape tracks in this scene
-      scene.clipSlots.forEach(slot => {
-        if (slot.clip) {
-          if (slot.trackId === this.referencesTrackId) {
-            referenceClip = slot.clip;
-            console.log(`Found reference clip in scene ${index + 1}:`, slot.clip);
-          } else if (slot.trackId === this.shapesTrackId) {
-            shapeClip = slot.clip;
-            console.log(`Found shape clip in scene ${index + 1}:`, slot.clip);
+      // The first track with a role that has a clip in this scene provides it
+      const findClip = (role: TrackRole): Clip | undefined => {
+        const trackIds = TrackRoles.getTrackIds(this.roles, role);
+        for (const trackId of trackIds) {
+          const clip = scene.clipSlots.find(slot => slot.trackId === trackId && slot.clip)?.clip;
+          if (clip) {
+            console.log(`Found ${role} clip in scene ${index + 1}:`, clip);
+            return clip;
           }
         }
-      });
+        return undefined;
+      };
       
-      // Calculate pitch class set if shape clip exists
-      const pitchClassSet = shapeClip && shapeClip.notes.length > 0
-        ? PitchClassSetAnalyzer.extractPitchClassSet(shapeClip)
-        : undefined;
+      // Every shape track contributes a layer
+      const shapeLayers: ShapeLayer[] = [];
+      TrackRoles.getTrackIds(this.roles, 'shape').forEach(trackId => {
+        const clip = scene.clipSlots.find(slot => slot.trackId === trackId && slot.clip)?.clip;
+        if (clip) {
+          shapeLayers.push({
+            trackId,
+            trackName: this.tracks.get(trackId)?.name || trackId,
+            clip,
+            notes: clip.notes,
+            included: true
+          });
+        }
+      });
       
-      return {
+      const builtScene: Scene = {
         index: index + 1,
         name: scene.name || `Scene ${index + 1}`,
-        referenceClip,
-        shapeClip,
-        pitchClassSet
+        referenceClip: findClip('reference'),
+        shapeLayers,
+        shapeNotes: [],
+        bassClip: findClip('bass'),
+        melodyClip: findClip('melody')
       };
+      this.analyzeShape(builtScene);
+      return builtScene;
+    });
+  }
+  
+  /**
+   * Compute everything derived from a scene's shape layers: each layer on its own,
+   * and the union of the included layers
+   */
+  private analyzeShape(scene: Scene): void {
+    scene.shapeLayers.forEach(layer => {
+      layer.notes = this.transpose(layer.clip.notes);
+      const hasLayerNotes = layer.notes.length > 0;
+      layer.included = !this.excludedLayers.has(layer.trackId);
+      layer.pitchClassSet = hasLayerNotes ? PitchClassSetAnalyzer.analyze(layer.notes.map(note => note.key)) : undefined;
+      layer.chord = hasLayerNotes ? ChordSymbolAnalyzer.analyzeNotes(layer.notes) : undefined;
+    });
+    
+    const included = scene.shapeLayers.filter(layer => layer.included);
+    const shapeClip = included[0]?.clip;
+    const shapeNotes: Note[] = included.flatMap(layer => layer.notes);
+    const hasNotes = shapeNotes.length > 0;
+    scene.shapeClip = shapeClip ?? scene.shapeLayers[0]?.clip;
+    scene.shapeNotes = shapeNotes;
+    
+    // A bass track, if any, supplies the chord's bass note
+    const chordNotes = hasNotes ? [...shapeNotes, ...this.transpose(scene.bassClip?.notes ?? [])] : [];
+    
+    // Calculate pitch class set if shape clip exists
+    scene.pitchClassSet = hasNotes ? PitchClassSetAnalyzer.analyze(shapeNotes.map(note => note.key)) : undefined;
+    scene.chord = hasNotes ? ChordSymbolAnalyzer.analyzeNotes(chordNotes) : undefined;
+    
+    // Layers are sliced together, over the first included layer's loop region
+    scene.slices = hasNotes
+      ? HarmonicSlicer.sliceClip({ ...shapeClip!, notes: shapeNotes }, this.sliceGrid)
+      : undefined;
+    
+    // A voicing describes one chord, so the scene shows its fullest slice (the longest
+    // of those with the most keys)
+    scene.voicing = scene.slices?.reduce((fullest, slice) => {
+      const size = slice.voicing.keys.length - fullest.voicing.keys.length;
+      return size > 0 || (size === 0 && slice.end - slice.start > fullest.end - fullest.start) ? slice : fullest;
+    }).voicing;
+  }
+  
+  /**
+   * Helper: Copies of notes moved by the transposition (the notes themselves without one)
+   */
+  private transpose(notes: Note[]): Note[] {
+    if (this.transposition === 0) return notes;
+    return notes.map(note => ({ ...note, key: note.key + this.transposition }));
+  }
+  
+  /**
+   * Estimate keys across the whole scene sequence and label each scene's function
+   */
+  private analyzeKeys(): void {
+    this.keyAnalysis = KeyAnalyzer.analyzeScenes(this.scenes);
+    this.scenes.forEach((scene, i) => {
+      scene.key = this.keyAnalysis!.sceneKeys[i];
+      scene.romanNumeral = this.keyAnalysis!.romanNumerals[i];
     });
   }
   
+  /**
+   * Recompute every scene's shape analysis, e.g. after the prime form convention changed
+   */
+  reanalyze(): void {
+    this.scenes.forEach(scene => this.analyzeShape(scene));
+    this.analyzeKeys();
+  }
+  
+  /**
+   * Change the beat grid used to split shape clips into harmonic slices
+   */
+  setSliceGrid(grid: number): void {
+    this.sliceGrid = grid;
+  }
+  
+  /**
+   * Leave these shape tracks out of the combined analysis; takes effect on reanalyze()
+   */
+  setExcludedLayers(trackIds: string[]): void {
+    this.excludedLayers = new Set(trackIds);
+  }
+  
+  /**
+   * Analyse every scene as if played this many semitones higher; takes effect on reanalyze()
+   */
+  setTransposition(semitones: number): void {
+    this.transposition = semitones;
+  }
+  
   getScenes(): Scene[] {
     return this.scenes;
   }
@@ -78,6 +211,21 @@ export class SceneManager {
     return this.scenes[index - 1];
   }
   
+  /**
+   * Relate the shapes of two scenes (1-based indices)
+   */
+  getRelation(fromIndex: number, toIndex: number): SceneRelation | undefined {
+    const from = this.getScene(fromIndex);
+    const to = this.getScene(toIndex);
+    if (!from || !to) return undefined;
+    
+    return TransformationAnalyzer.relateScenes(from, to);
+  }
+  
+  getKeyAnalysis(): KeyAnalysis | undefined {
+    return this.keyAnalysis;
+  }
+  
   getTotalScenes(): number {
     return this.scenes.length;
   }
@@ -85,4 +233,8 @@ export class SceneManager {
   getTrack(trackId: string): Track | undefined {
     return this.tracks.get(trackId);
   }
+  
+  getRoles(): TrackRoleMap {
+    return this.roles;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { MidiFileReader } from './midi-file';
+import { MusicXmlReader } from './musicxml';
+import type { ImportedScore } from './score-import';
+
+export interface ScoreImportReport {
+  casesChecked: number;
+  failures: string[];
+}
+
+/**
+ * A note expected in an imported track, in beats
+ */
+interface ExpectedNote {
+  key: number;
+  time: number;
+  duration: number;
+}
+
+const TICKS_PER_BEAT = 480;
+
+export class ScoreImportVerifier {
+  /**
+   * Read small hand-made MIDI files and MusicXML scores and compare the notes, tempo,
+   * meter and markers with what they spell out
+   */
+  static verifyAll(): ScoreImportReport {
+    const failures: string[] = [];
+    let casesChecked = 0;
+
+    const check = (label: string, read: () => ImportedScore, verify: (score: ImportedScore) => string[]) => {
+      casesChecked++;
+      try {
+        failures.push(...verify(read()).map(failure => `${label}: ${failure}`));
+      } catch (error) {
+        failures.push(`${label}: ${(error as Error).message}`);
+      }
+    };
+
+    check('MIDI running status', () => MidiFileReader.read(this.midiFile([
+      [0, 0x90, 60, 100],
+      [0, 64, 100],          // running status: another note on
+      [TICKS_PER_BEAT, 60, 0], // note on with velocity 0 ends the note
+      [0, 64, 0],
+      [0, 0x80, 67, 0],      // a stray note off changes nothing
+      [0, 0x91, 48, 90],
+      [TICKS_PER_BEAT * 2, 0x81, 48, 0]
+    ])), score => [
+      ...this.compareNotes(score.tracks[0]?.notes ?? [], [
+        { key: 60, time: 0, duration: 1 },
+        { key: 64, time: 0, duration: 1 }
+      ]),
+      ...this.compareNotes(score.tracks[1]?.notes ?? [], [{ key: 48, time: 1, duration: 2 }]),
+      ...this.expect('track count', score.tracks.length, 2)
+    ]);
+
+    check('MIDI repeated key', () => MidiFileReader.read(this.midiFile([
+      [0, 0x90, 60, 100],
+      [TICKS_PER_BEAT, 0x90, 60, 100], // struck again while still held
+      [TICKS_PER_BEAT, 0x80, 60, 0],   // ends the first
+      [TICKS_PER_BEAT, 0x90, 60, 0]    // ends the second
+    ])), score => this.compareNotes(score.tracks[0]?.notes ?? [], [
+      { key: 60, time: 0, duration: 2 },
+      { key: 60, time: 1, duration: 2 }
+    ]));
+
+    check('MIDI tempo, meter and markers', () => MidiFileReader.read(this.midiFile([
+      [0, 0xff, 0x51, 3, 0x07, 0xa1, 0x20],     // 500000 µs per beat: 120 BPM
+      [0, 0xff, 0x58, 4, 3, 2, 24, 8],           // 3/4
+      [0, 0xff, 0x06, 1, 0x41],                  // marker "A"
+      [0, 0x90, 62, 64],
+      [TICKS_PER_BEAT * 3, 0xff, 0x06, 1, 0x42], // marker "B"
+      [0, 0x80, 62, 0]
+    ])), score => [
+      ...this.expect('tempo', score.tempoPoints[0]?.bpm, 120),
+      ...this.expect('meter', `${score.timeSignaturePoints[0]?.numerator}/${score.timeSignaturePoints[0]?.denominator}`, '3/4'),
+      ...this.expect('markers', score.markers.map(marker => `${marker.name}@${marker.time}`).join(' '), 'A@0 B@3'),
+      ...this.compareNotes(score.tracks[0]?.notes ?? [], [{ key: 62, time: 0, duration: 3 }])
+    ]);
+
+    check('MusicXML chord', () => MusicXmlReader.read(this.musicXml(`
+      <note><pitch><step>C</step><octave>4</octave></pitch><duration>2</duration></note>
+      <note><chord/><pitch><step>E</step><octave>4</octave></pitch><duration>2</duration></note>
+      <note><chord/><pitch><step>G</step><octave>4</octave></pitch><duration>2</duration></note>
+      <note><pitch><step>B</step><alter>-1</alter><octave>4</octave></pitch><duration>2</duration></note>
+    `)), score => this.compareNotes(score.tracks[0]?.notes ?? [], [
+      { key: 60, time: 0, duration: 1 },
+      { key: 64, time: 0, duration: 1 },
+      { key: 67, time: 0, duration: 1 },
+      { key: 70, time: 1, duration: 1 }
+    ]));
+
+    check('MusicXML backup', () => MusicXmlReader.read(this.musicXml(`
+      <note><pitch><step>A</step><octave>4</octave></pitch><duration>8</duration></note>
+      <backup><duration>8</duration></backup>
+      <note><rest/><duration>4</duration></note>
+      <note><pitch><step>D</step><octave>3</octave></pitch><duration>4</duration></note>
+    `)), score => [
+      ...this.compareNotes(score.tracks[0]?.notes ?? [], [
+        { key: 69, time: 0, duration: 4 },
+        { key: 50, time: 2, duration: 2 }
+      ]),
+      ...this.expect('measure starts', score.measures?.join(' '), '0')
+    ]);
+
+    check('MusicXML ties', () => MusicXmlReader.read(this.musicXml(`
+      <note><pitch><step>F</step><alter>1</alter><octave>4</octave></pitch><duration>4</duration><tie type="start"/></note>
+      <note><chord/><pitch><step>A</step><octave>4</octave></pitch><duration>4</duration></note>
+      <note><pitch><step>F</step><alter>1</alter><octave>4</octave></pitch><duration>4</duration><tie type="stop"/><tie type="start"/></note>
+    `, `
+      <note><pitch><step>F</step><alter>1</alter><octave>4</octave></pitch><duration>2</duration><tie type="stop"/></note>
+      <note><pitch><step>F</step><alter>1</alter><octave>4</octave></pitch><duration>2</duration></note>
+    `)), score => this.compareNotes(score.tracks[0]?.notes ?? [], [
+      { key: 66, time: 0, duration: 5 },
+      { key: 69, time: 0, duration: 2 },
+      { key: 66, time: 5, duration: 1 }
+    ]));
+
+    return { casesChecked, failures };
+  }
+
+  /**
+   * Helper: A format 0 MIDI file with one track of events. Each event is a delta time
+   * in ticks followed by its bytes, written as given so running status can be tested.
+   */
+  private static midiFile(events: number[][]): Uint8Array {
+    const track: number[] = [];
+    events.forEach(([delta, ...bytes]) => track.push(...this.varLength(delta), ...bytes));
+    track.push(0, 0xff, 0x2f, 0);
+
+    const uint = (value: number, bytes: number) =>
+      Array.from({ length: bytes }, (_, i) => (value >> (8 * (bytes - 1 - i))) & 0xff);
+    return new Uint8Array([
+      ...Array.from('MThd', c => c.charCodeAt(0)), ...uint(6, 4), ...uint(0, 2), ...uint(1, 2), ...uint(TICKS_PER_BEAT, 2),
+      ...Array.from('MTrk', c => c.charCodeAt(0)), ...uint(track.length, 4), ...track
+    ]);
+  }
+
+  private static varLength(value: number): number[] {
+    const bytes = [value & 0x7f];
+    for (let rest = value >> 7; rest > 0; rest >>= 7) bytes.unshift((rest & 0x7f) | 0x80);
+    return bytes;
+  }
+
+  /**
+   * Helper: A one-part partwise score in 4/4, two divisions per beat, with a measure
+   * per block of notes
+   */
+  private static musicXml(...measureNotes: string[]): string {
+    const measures = measureNotes.map((notes, i) => `
+      <measure number="${i + 1}">
+        ${i === 0 ? `<attributes><divisions>2</divisions><time><beats>4</beats><beat-type>4</beat-type></time></attributes>` : ''}
+        ${notes}
+      </measure>`);
+    return `<?xml version="1.0"?>
+      <score-partwise>
+        <part-list><score-part id="P1"><part-name>Piano</part-name></score-part></part-list>
+        <part id="P1">${measures.join('')}</part>
+      </score-partwise>`;
+  }
+
+  private static compareNotes(notes: ExpectedNote[], expected: ExpectedNote[]): string[] {
+    const format = (list: ExpectedNote[]) => list
+      .map(note => `${note.key}@${note.time}+${note.duration}`)
+      .sort()
+      .join(' ');
+    return this.expect('notes', format(notes), format(expected));
+  }
+
+  private static expect<T>(label: string, actual: T, expected: T): string[] {
+    return actual === expected ? [] : [`${label}: got ${String(actual)}, expected ${String(expected)}`];
+  }
+}
@@ -0,0 +1,149 @@
+import JSZip from 'jszip';
+import type { Clip, DAWProject, Note, Track } from './dawproject-parser';
+import { TempoMap } from './tempo-map';
+import type { TempoPoint, TimeSignaturePoint } from './tempo-map';
+import { MarkerScenes } from './marker-scenes';
+import type { Marker } from './marker-scenes';
+import { MidiFileReader } from './midi-file';
+import { MusicXmlReader } from './musicxml';
+import type { Diagnostic } from './diagnostics';
+import { parseXml } from './xml';
+
+export interface ImportedTrack {
+  name: string;
+  notes: Note[]; // beats from the start of the score
+}
+
+/**
+ * Notes, timing and sections read from a MIDI file or score
+ */
+export interface ImportedScore {
+  tracks: ImportedTrack[];
+  tempoPoints: TempoPoint[];
+  timeSignaturePoints: TimeSignaturePoint[];
+  markers: Marker[];
+  measures?: number[]; // beats where measures start, when the source spells them out
+  length: number;      // beats
+}
+
+const MIDI_EXTENSIONS = ['.mid', '.midi', '.smf'];
+const MUSICXML_EXTENSIONS = ['.musicxml', '.xml', '.mxl'];
+
+export class ScoreImporter {
+  static isScoreFile(fileName: string): boolean {
+    const name = fileName.toLowerCase();
+    return [...MIDI_EXTENSIONS, ...MUSICXML_EXTENSIONS].some(extension => name.endsWith(extension));
+  }
+
+  /**
+   * Build a project from a MIDI or MusicXML file and the audio to practise with. The
+   * audio is stored in a new archive so it plays like audio inside a .dawproject.
+   */
+  static async load(file: File, audioFile?: File): Promise<{ project: DAWProject; zip: JSZip }> {
+    const name = file.name.toLowerCase();
+    const data = new Uint8Array(await file.arrayBuffer());
+
+    let score: ImportedScore;
+    if (MIDI_EXTENSIONS.some(extension => name.endsWith(extension))) {
+      score = MidiFileReader.read(data);
+    } else if (name.endsWith('.mxl')) {
+      score = MusicXmlReader.read(await this.readCompressedMusicXml(data));
+    } else {
+      score = MusicXmlReader.read(new TextDecoder().decode(data));
+    }
+
+    const zip = new JSZip();
+    let audioPath: string | undefined;
+    if (audioFile) {
+      audioPath = `audio/${audioFile.name}`;
+      zip.file(audioPath, await audioFile.arrayBuffer());
+    }
+
+    return { project: this.toProject(score, file.name, audioPath), zip };
+  }
+
+  /**
+   * Map a score onto the project model: a reference track playing the audio from the
+   * start, one notes track per score track, and a scene per marker (or per measure
+   * when there are no markers)
+   */
+  static toProject(score: ImportedScore, sourceName: string, audioPath?: string): DAWProject {
+    const tempoMap = new TempoMap(score.tempoPoints, score.timeSignaturePoints);
+    const length = score.length;
+    const diagnostics: Diagnostic[] = [];
+
+    const referenceClip: Clip = { time: 0, duration: length, playStart: 0, notes: [] };
+    if (audioPath) {
+      referenceClip.audioFile = audioPath;
+      referenceClip.audioRegions = [{ time: 0, duration: length, audioFile: audioPath, sourceStart: 0 }];
+    } else {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'unresolved-audio-path',
+        message: `No audio file was chosen with ${sourceName}, so scenes have no reference audio`
+      });
+    }
+
+    const tracks: Track[] = [
+      { id: 'reference', name: 'Reference', contentType: 'audio', clips: audioPath ? [referenceClip] : [] },
+      ...score.tracks.map((track, i) => ({
+        id: `track-${i + 1}`,
+        name: track.name,
+        contentType: 'notes',
+        clips: [{ time: 0, duration: length, playStart: 0, name: track.name, notes: track.notes }]
+      }))
+    ];
+
+    const markers = score.markers.length > 0
+      ? score.markers
+      : (score.measures ?? this.getMeasureStarts(tempoMap, length)).map((time, i) => ({ time, name: `Bar ${i + 1}` }));
+
+    // Imported scenes are the project's own, so they are written back like launcher scenes
+    const scenes = MarkerScenes.derive(tracks, markers, length, tempoMap);
+    scenes.forEach(scene => delete scene.markerRegion);
+
+    diagnostics.push({
+      severity: 'info',
+      code: 'scenes-from-markers',
+      message: `Imported ${score.tracks.length} track(s) from ${sourceName}; ${scenes.length} scene(s) from ${score.markers.length > 0 ? 'markers' : 'measures'}`
+    });
+
+    const firstTimeSignature = tempoMap.getTimeSignatureAt(0);
+    return {
+      tracks,
+      scenes,
+      metadata: { Title: sourceName.replace(/\.[^.]+$/, '') },
+      tempo: tempoMap.getTempoAt(0),
+      timeSignature: { numerator: firstTimeSignature.numerator, denominator: firstTimeSignature.denominator },
+      tempoMap,
+      diagnostics
+    };
+  }
+
+  /**
+   * Helper: Beat positions of the bar lines up to a length
+   */
+  private static getMeasureStarts(tempoMap: TempoMap, length: number): number[] {
+    const starts: number[] = [];
+    for (let beats = 0; beats < length; ) {
+      starts.push(beats);
+      const { numerator, denominator } = tempoMap.getTimeSignatureAt(beats);
+      beats += numerator * (4 / denominator);
+    }
+    return starts;
+  }
+
+  /**
+   * Helper: The score inside a compressed .mxl archive, as named by its container file
+   */
+  private static async readCompressedMusicXml(data: Uint8Array): Promise<string> {
+    const zip = await new JSZip().loadAsync(data);
+    const container = await zip.file('META-INF/container.xml')?.async('text');
+    const rootPath = container ? parseXml(container).find('rootfile')?.getAttribute('full-path') : undefined;
+    const scorePath = rootPath ?? Object.keys(zip.files).find(path => !path.startsWith('META-INF/') && /\.(musicxml|xml)$/i.test(path));
+
+    const score = scorePath ? await zip.file(scorePath)?.async('text') : undefined;
+    if (!score) throw new Error('No score found in the .mxl archive');
+    return score;
+  }
+}
@@ -0,0 +1,299 @@
+export interface SetClass {
+  forteNumber: string;
+  primeForm: number[];
+  rahnPrimeForm?: number[];   // only where Rahn's packing gives a different prime form
+  complement: string;
+  zRelation?: string;
+  descriptiveName?: string;
+}
+
+// All 224 set classes under transposition and inversion (cardinalities 0-12),
+// with prime forms following Forte's packing convention (and Rahn's where they differ)
+const SET_CLASSES: SetClass[] = [
+  { forteNumber: '0-1', primeForm: [], complement: '12-1', descriptiveName: 'null set' },
+  { forteNumber: '1-1', primeForm: [0], complement: '11-1', descriptiveName: 'unison' },
+  { forteNumber: '2-1', primeForm: [0, 1], complement: '10-1', descriptiveName: 'minor second' },
+  { forteNumber: '2-2', primeForm: [0, 2], complement: '10-2', descriptiveName: 'major second' },
+  { forteNumber: '2-3', primeForm: [0, 3], complement: '10-3', descriptiveName: 'minor third' },
+  { forteNumber: '2-4', primeForm: [0, 4], complement: '10-4', descriptiveName: 'major third' },
+  { forteNumber: '2-5', primeForm: [0, 5], complement: '10-5', descriptiveName: 'perfect fourth' },
+  { forteNumber: '2-6', primeForm: [0, 6], complement: '10-6', descriptiveName: 'tritone' },
+  { forteNumber: '3-1', primeForm: [0, 1, 2], complement: '9-1', descriptiveName: 'chromatic trichord' },
+  { forteNumber: '3-2', primeForm: [0, 1, 3], complement: '9-2', descriptiveName: 'phrygian trichord' },
+  { forteNumber: '3-3', primeForm: [0, 1, 4], complement: '9-3', descriptiveName: 'major-minor trichord' },
+  { forteNumber: '3-4', primeForm: [0, 1, 5], complement: '9-4', descriptiveName: 'incomplete major-seventh chord' },
+  { forteNumber: '3-5', primeForm: [0, 1, 6], complement: '9-5', descriptiveName: 'tritone-fourth trichord' },
+  { forteNumber: '3-6', primeForm: [0, 2, 4], complement: '9-6', descriptiveName: 'whole-tone trichord' },
+  { forteNumber: '3-7', primeForm: [0, 2, 5], complement: '9-7', descriptiveName: 'incomplete minor-seventh chord' },
+  { forteNumber: '3-8', primeForm: [0, 2, 6], complement: '9-8', descriptiveName: 'incomplete dominant-seventh chord' },
+  { forteNumber: '3-9', primeForm: [0, 2, 7], complement: '9-9', descriptiveName: 'quartal trichord' },
+  { forteNumber: '3-10', primeForm: [0, 3, 6], complement: '9-10', descriptiveName: 'diminished triad' },
+  { forteNumber: '3-11', primeForm: [0, 3, 7], complement: '9-11', descriptiveName: 'major/minor triad' },
+  { forteNumber: '3-12', primeForm: [0, 4, 8], complement: '9-12', descriptiveName: 'augmented triad' },
+  { forteNumber: '4-1', primeForm: [0, 1, 2, 3], complement: '8-1', descriptiveName: 'chromatic tetramer' },
+  { forteNumber: '4-2', primeForm: [0, 1, 2, 4], complement: '8-2' },
+  { forteNumber: '4-3', primeForm: [0, 1, 3, 4], complement: '8-3' },
+  { forteNumber: '4-4', primeForm: [0, 1, 2, 5], complement: '8-4' },
+  { forteNumber: '4-5', primeForm: [0, 1, 2, 6], complement: '8-5' },
+  { forteNumber: '4-6', primeForm: [0, 1, 2, 7], complement: '8-6' },
+  { forteNumber: '4-7', primeForm: [0, 1, 4, 5], complement: '8-7' },
+  { forteNumber: '4-8', primeForm: [0, 1, 5, 6], complement: '8-8' },
+  { forteNumber: '4-9', primeForm: [0, 1, 6, 7], complement: '8-9' },
+  { forteNumber: '4-10', primeForm: [0, 2, 3, 5], complement: '8-10', descriptiveName: 'minor tetrachord' },
+  { forteNumber: '4-11', primeForm: [0, 1, 3, 5], complement: '8-11', descriptiveName: 'phrygian tetrachord' },
+  { forteNumber: '4-12', primeForm: [0, 2, 3, 6], complement: '8-12' },
+  { forteNumber: '4-13', primeForm: [0, 1, 3, 6], complement: '8-13' },
+  { forteNumber: '4-14', primeForm: [0, 2, 3, 7], complement: '8-14' },
+  { forteNumber: '4-Z15', primeForm: [0, 1, 4, 6], complement: '8-Z15', zRelation: '4-Z29', descriptiveName: 'all-interval tetrachord' },
+  { forteNumber: '4-16', primeForm: [0, 1, 5, 7], complement: '8-16' },
+  { forteNumber: '4-17', primeForm: [0, 3, 4, 7], complement: '8-17', descriptiveName: 'major-minor tetrachord' },
+  { forteNumber: '4-18', primeForm: [0, 1, 4, 7], complement: '8-18' },
+  { forteNumber: '4-19', primeForm: [0, 1, 4, 8], complement: '8-19', descriptiveName: 'minor-major seventh chord' },
+  { forteNumber: '4-20', primeForm: [0, 1, 5, 8], complement: '8-20', descriptiveName: 'major seventh chord' },
+  { forteNumber: '4-21', primeForm: [0, 2, 4, 6], complement: '8-21', descriptiveName: 'whole-tone tetramer' },
+  { forteNumber: '4-22', primeForm: [0, 2, 4, 7], complement: '8-22', descriptiveName: 'major add-ninth chord' },
+  { forteNumber: '4-23', primeForm: [0, 2, 5, 7], complement: '8-23', descriptiveName: 'quartal tetrachord' },
+  { forteNumber: '4-24', primeForm: [0, 2, 4, 8], complement: '8-24', descriptiveName: 'augmented seventh chord' },
+  { forteNumber: '4-25', primeForm: [0, 2, 6, 8], complement: '8-25', descriptiveName: 'French sixth chord' },
+  { forteNumber: '4-26', primeForm: [0, 3, 5, 8], complement: '8-26', descriptiveName: 'minor seventh chord' },
+  { forteNumber: '4-27', primeForm: [0, 2, 5, 8], complement: '8-27', descriptiveName: 'half-diminished / dominant seventh chord' },
+  { forteNumber: '4-28', primeForm: [0, 3, 6, 9], complement: '8-28', descriptiveName: 'diminished seventh chord' },
+  { forteNumber: '4-Z29', primeForm: [0, 1, 3, 7], complement: '8-Z29', zRelation: '4-Z15', descriptiveName: 'all-interval tetrachord' },
+  { forteNumber: '5-1', primeForm: [0, 1, 2, 3, 4], complement: '7-1', descriptiveName: 'chromatic pentamer' },
+  { forteNumber: '5-2', primeForm: [0, 1, 2, 3, 5], complement: '7-2' },
+  { forteNumber: '5-3', primeForm: [0, 1, 2, 4, 5], complement: '7-3' },
+  { forteNumber: '5-4', primeForm: [0, 1, 2, 3, 6], complement: '7-4' },
+  { forteNumber: '5-5', primeForm: [0, 1, 2, 3, 7], complement: '7-5' },
+  { forteNumber: '5-6', primeForm: [0, 1, 2, 5, 6], complement: '7-6' },
+  { forteNumber: '5-7', primeForm: [0, 1, 2, 6, 7], complement: '7-7' },
+  { forteNumber: '5-8', primeForm: [0, 2, 3, 4, 6], complement: '7-8' },
+  { forteNumber: '5-9', primeForm: [0, 1, 2, 4, 6], complement: '7-9' },
+  { forteNumber: '5-10', primeForm: [0, 1, 3, 4, 6], complement: '7-10' },
+  { forteNumber: '5-11', primeForm: [0, 2, 3, 4, 7], complement: '7-11' },
+  { forteNumber: '5-Z12', primeForm: [0, 1, 3, 5, 6], complement: '7-Z12', zRelation: '5-Z36' },
+  { forteNumber: '5-13', primeForm: [0, 1, 2, 4, 8], complement: '7-13' },
+  { forteNumber: '5-14', primeForm: [0, 1, 2, 5, 7], complement: '7-14' },
+  { forteNumber: '5-15', primeForm: [0, 1, 2, 6, 8], complement: '7-15' },
+  { forteNumber: '5-16', primeForm: [0, 1, 3, 4, 7], complement: '7-16' },
+  { forteNumber: '5-Z17', primeForm: [0, 1, 3, 4, 8], complement: '7-Z17', zRelation: '5-Z37' },
+  { forteNumber: '5-Z18', primeForm: [0, 1, 4, 5, 7], complement: '7-Z18', zRelation: '5-Z38' },
+  { forteNumber: '5-19', primeForm: [0, 1, 3, 6, 7], complement: '7-19' },
+  { forteNumber: '5-20', primeForm: [0, 1, 3, 7, 8], rahnPrimeForm: [0, 1, 5, 6, 8], complement: '7-20' },
+  { forteNumber: '5-21', primeForm: [0, 1, 4, 5, 8], complement: '7-21' },
+  { forteNumber: '5-22', primeForm: [0, 1, 4, 7, 8], complement: '7-22' },
+  { forteNumber: '5-23', primeForm: [0, 2, 3, 5, 7], complement: '7-23' },
+  { forteNumber: '5-24', primeForm: [0, 1, 3, 5, 7], complement: '7-24' },
+  { forteNumber: '5-25', primeForm: [0, 2, 3, 5, 8], complement: '7-25' },
+  { forteNumber: '5-26', primeForm: [0, 2, 4, 5, 8], complement: '7-26' },
+  { forteNumber: '5-27', primeForm: [0, 1, 3, 5, 8], complement: '7-27', descriptiveName: 'major/minor ninth chord' },
+  { forteNumber: '5-28', primeForm: [0, 2, 3, 6, 8], complement: '7-28' },
+  { forteNumber: '5-29', primeForm: [0, 1, 3, 6, 8], complement: '7-29' },
+  { forteNumber: '5-30', primeForm: [0, 1, 4, 6, 8], complement: '7-30' },
+  { forteNumber: '5-31', primeForm: [0, 1, 3, 6, 9], complement: '7-31', descriptiveName: 'dominant minor-ninth chord' },
+  { forteNumber: '5-32', primeForm: [0, 1, 4, 6, 9], complement: '7-32' },
+  { forteNumber: '5-33', primeForm: [0, 2, 4, 6, 8], complement: '7-33', descriptiveName: 'whole-tone pentamer' },
+  { forteNumber: '5-34', primeForm: [0, 2, 4, 6, 9], complement: '7-34', descriptiveName: 'dominant ninth chord' },
+  { forteNumber: '5-35', primeForm: [0, 2, 4, 7, 9], complement: '7-35', descriptiveName: 'pentatonic scale' },
+  { forteNumber: '5-Z36', primeForm: [0, 1, 2, 4, 7], complement: '7-Z36', zRelation: '5-Z12' },
+  { forteNumber: '5-Z37', primeForm: [0, 3, 4, 5, 8], complement: '7-Z37', zRelation: '5-Z17' },
+  { forteNumber: '5-Z38', primeForm: [0, 1, 2, 5, 8], complement: '7-Z38', zRelation: '5-Z18' },
+  { forteNumber: '6-1', primeForm: [0, 1, 2, 3, 4, 5], complement: '6-1', descriptiveName: 'chromatic hexamer' },
+  { forteNumber: '6-2', primeForm: [0, 1, 2, 3, 4, 6], complement: '6-2' },
+  { forteNumber: '6-Z3', primeForm: [0, 1, 2, 3, 5, 6], complement: '6-Z36', zRelation: '6-Z36' },
+  { forteNumber: '6-Z4', primeForm: [0, 1, 2, 4, 5, 6], complement: '6-Z37', zRelation: '6-Z37' },
+  { forteNumber: '6-5', primeForm: [0, 1, 2, 3, 6, 7], complement: '6-5' },
+  { forteNumber: '6-Z6', primeForm: [0, 1, 2, 5, 6, 7], complement: '6-Z38', zRelation: '6-Z38' },
+  { forteNumber: '6-7', primeForm: [0, 1, 2, 6, 7, 8], complement: '6-7' },
+  { forteNumber: '6-8', primeForm: [0, 2, 3, 4, 5, 7], complement: '6-8' },
+  { forteNumber: '6-9', primeForm: [0, 1, 2, 3, 5, 7], complement: '6-9' },
+  { forteNumber: '6-Z10', primeForm: [0, 1, 3, 4, 5, 7], complement: '6-Z39', zRelation: '6-Z39' },
+  { forteNumber: '6-Z11', primeForm: [0, 1, 2, 4, 5, 7], complement: '6-Z40', zRelation: '6-Z40' },
+  { forteNumber: '6-Z12', primeForm: [0, 1, 2, 4, 6, 7], complement: '6-Z41', zRelation: '6-Z41' },
+  { forteNumber: '6-Z13', primeForm: [0, 1, 3, 4, 6, 7], complement: '6-Z42', zRelation: '6-Z42' },
+  { forteNumber: '6-14', primeForm: [0, 1, 3, 4, 5, 8], complement: '6-14' },
+  { forteNumber: '6-15', primeForm: [0, 1, 2, 4, 5, 8], complement: '6-15' },
+  { forteNumber: '6-16', primeForm: [0, 1, 4, 5, 6, 8], complement: '6-16' },
+  { forteNumber: '6-Z17', primeForm: [0, 1, 2, 4, 7, 8], complement: '6-Z43', zRelation: '6-Z43', descriptiveName: 'all-trichord hexachord' },
+  { forteNumber: '6-18', primeForm: [0, 1, 2, 5, 7, 8], complement: '6-18' },
+  { forteNumber: '6-Z19', primeForm: [0, 1, 3, 4, 7, 8], complement: '6-Z44', zRelation: '6-Z44' },
+  { forteNumber: '6-20', primeForm: [0, 1, 4, 5, 8, 9], complement: '6-20', descriptiveName: 'hexatonic (augmented) scale' },
+  { forteNumber: '6-21', primeForm: [0, 2, 3, 4, 6, 8], complement: '6-21' },
+  { forteNumber: '6-22', primeForm: [0, 1, 2, 4, 6, 8], complement: '6-22' },
+  { forteNumber: '6-Z23', primeForm: [0, 2, 3, 5, 6, 8], complement: '6-Z45', zRelation: '6-Z45' },
+  { forteNumber: '6-Z24', primeForm: [0, 1, 3, 4, 6, 8], complement: '6-Z46', zRelation: '6-Z46' },
+  { forteNumber: '6-Z25', primeForm: [0, 1, 3, 5, 6, 8], complement: '6-Z47', zRelation: '6-Z47' },
+  { forteNumber: '6-Z26', primeForm: [0, 1, 3, 5, 7, 8], complement: '6-Z48', zRelation: '6-Z48' },
+  { forteNumber: '6-27', primeForm: [0, 1, 3, 4, 6, 9], complement: '6-27' },
+  { forteNumber: '6-Z28', primeForm: [0, 1, 3, 5, 6, 9], complement: '6-Z49', zRelation: '6-Z49' },
+  { forteNumber: '6-Z29', primeForm: [0, 1, 3, 6, 8, 9], rahnPrimeForm: [0, 2, 3, 6, 7, 9], complement: '6-Z50', zRelation: '6-Z50' },
+  { forteNumber: '6-30', primeForm: [0, 1, 3, 6, 7, 9], complement: '6-30', descriptiveName: 'Petrushka chord' },
+  { forteNumber: '6-31', primeForm: [0, 1, 3, 5, 8, 9], rahnPrimeForm: [0, 1, 4, 5, 7, 9], complement: '6-31' },
+  { forteNumber: '6-32', primeForm: [0, 2, 4, 5, 7, 9], complement: '6-32', descriptiveName: 'diatonic hexachord' },
+  { forteNumber: '6-33', primeForm: [0, 2, 3, 5, 7, 9], complement: '6-33' },
+  { forteNumber: '6-34', primeForm: [0, 1, 3, 5, 7, 9], complement: '6-34', descriptiveName: 'mystic chord' },
+  { forteNumber: '6-35', primeForm: [0, 2, 4, 6, 8, 10], complement: '6-35', descriptiveName: 'whole-tone scale' },
+  { forteNumber: '6-Z36', primeForm: [0, 1, 2, 3, 4, 7], complement: '6-Z3', zRelation: '6-Z3' },
+  { forteNumber: '6-Z37', primeForm: [0, 1, 2, 3, 4, 8], complement: '6-Z4', zRelation: '6-Z4' },
+  { forteNumber: '6-Z38', primeForm: [0, 1, 2, 3, 7, 8], complement: '6-Z6', zRelation: '6-Z6' },
+  { forteNumber: '6-Z39', primeForm: [0, 2, 3, 4, 5, 8], complement: '6-Z10', zRelation: '6-Z10' },
+  { forteNumber: '6-Z40', primeForm: [0, 1, 2, 3, 5, 8], complement: '6-Z11', zRelation: '6-Z11' },
+  { forteNumber: '6-Z41', primeForm: [0, 1, 2, 3, 6, 8], complement: '6-Z12', zRelation: '6-Z12' },
+  { forteNumber: '6-Z42', primeForm: [0, 1, 2, 3, 6, 9], complement: '6-Z13', zRelation: '6-Z13' },
+  { forteNumber: '6-Z43', primeForm: [0, 1, 2, 5, 6, 8], complement: '6-Z17', zRelation: '6-Z17' },
+  { forteNumber: '6-Z44', primeForm: [0, 1, 2, 5, 6, 9], complement: '6-Z19', zRelation: '6-Z19', descriptiveName: 'Schoenberg signature hexachord' },
+  { forteNumber: '6-Z45', primeForm: [0, 2, 3, 4, 6, 9], complement: '6-Z23', zRelation: '6-Z23' },
+  { forteNumber: '6-Z46', primeForm: [0, 1, 2, 4, 6, 9], complement: '6-Z24', zRelation: '6-Z24' },
+  { forteNumber: '6-Z47', primeForm: [0, 1, 2, 4, 7, 9], complement: '6-Z25', zRelation: '6-Z25' },
+  { forteNumber: '6-Z48', primeForm: [0, 1, 2, 5, 7, 9], complement: '6-Z26', zRelation: '6-Z26' },
+  { forteNumber: '6-Z49', primeForm: [0, 1, 3, 4, 7, 9], complement: '6-Z28', zRelation: '6-Z28' },
+  { forteNumber: '6-Z50', primeForm: [0, 1, 4, 6, 7, 9], complement: '6-Z29', zRelation: '6-Z29' },
+  { forteNumber: '7-1', primeForm: [0, 1, 2, 3, 4, 5, 6], complement: '5-1', descriptiveName: 'chromatic heptamer' },
+  { forteNumber: '7-2', primeForm: [0, 1, 2, 3, 4, 5, 7], complement: '5-2' },
+  { forteNumber: '7-3', primeForm: [0, 1, 2, 3, 4, 5, 8], complement: '5-3' },
+  { forteNumber: '7-4', primeForm: [0, 1, 2, 3, 4, 6, 7], complement: '5-4' },
+  { forteNumber: '7-5', primeForm: [0, 1, 2, 3, 5, 6, 7], complement: '5-5' },
+  { forteNumber: '7-6', primeForm: [0, 1, 2, 3, 4, 7, 8], complement: '5-6' },
+  { forteNumber: '7-7', primeForm: [0, 1, 2, 3, 6, 7, 8], complement: '5-7' },
+  { forteNumber: '7-8', primeForm: [0, 2, 3, 4, 5, 6, 8], complement: '5-8' },
+  { forteNumber: '7-9', primeForm: [0, 1, 2, 3, 4, 6, 8], complement: '5-9' },
+  { forteNumber: '7-10', primeForm: [0, 1, 2, 3, 4, 6, 9], complement: '5-10' },
+  { forteNumber: '7-11', primeForm: [0, 1, 3, 4, 5, 6, 8], complement: '5-11' },
+  { forteNumber: '7-Z12', primeForm: [0, 1, 2, 3, 4, 7, 9], complement: '5-Z12', zRelation: '7-Z36' },
+  { forteNumber: '7-13', primeForm: [0, 1, 2, 4, 5, 6, 8], complement: '5-13' },
+  { forteNumber: '7-14', primeForm: [0, 1, 2, 3, 5, 7, 8], complement: '5-14' },
+  { forteNumber: '7-15', primeForm: [0, 1, 2, 4, 6, 7, 8], complement: '5-15' },
+  { forteNumber: '7-16', primeForm: [0, 1, 2, 3, 5, 6, 9], complement: '5-16' },
+  { forteNumber: '7-Z17', primeForm: [0, 1, 2, 4, 5, 6, 9], complement: '5-Z17', zRelation: '7-Z37' },
+  { forteNumber: '7-Z18', primeForm: [0, 1, 2, 3, 5, 8, 9], rahnPrimeForm: [0, 1, 4, 5, 6, 7, 9], complement: '5-Z18', zRelation: '7-Z38' },
+  { forteNumber: '7-19', primeForm: [0, 1, 2, 3, 6, 7, 9], complement: '5-19' },
+  { forteNumber: '7-20', primeForm: [0, 1, 2, 4, 7, 8, 9], rahnPrimeForm: [0, 1, 2, 5, 6, 7, 9], complement: '5-20' },
+  { forteNumber: '7-21', primeForm: [0, 1, 2, 4, 5, 8, 9], complement: '5-21' },
+  { forteNumber: '7-22', primeForm: [0, 1, 2, 5, 6, 8, 9], complement: '5-22', descriptiveName: 'double harmonic scale' },
+  { forteNumber: '7-23', primeForm: [0, 2, 3, 4, 5, 7, 9], complement: '5-23' },
+  { forteNumber: '7-24', primeForm: [0, 1, 2, 3, 5, 7, 9], complement: '5-24' },
+  { forteNumber: '7-25', primeForm: [0, 2, 3, 4, 6, 7, 9], complement: '5-25' },
+  { forteNumber: '7-26', primeForm: [0, 1, 3, 4, 5, 7, 9], complement: '5-26' },
+  { forteNumber: '7-27', primeForm: [0, 1, 2, 4, 5, 7, 9], complement: '5-27' },
+  { forteNumber: '7-28', primeForm: [0, 1, 3, 5, 6, 7, 9], complement: '5-28' },
+  { forteNumber: '7-29', primeForm: [0, 1, 2, 4, 6, 7, 9], complement: '5-29' },
+  { forteNumber: '7-30', primeForm: [0, 1, 2, 4, 6, 8, 9], complement: '5-30' },
+  { forteNumber: '7-31', primeForm: [0, 1, 3, 4, 6, 7, 9], complement: '5-31' },
+  { forteNumber: '7-32', primeForm: [0, 1, 3, 4, 6, 8, 9], complement: '5-32', descriptiveName: 'harmonic minor scale' },
+  { forteNumber: '7-33', primeForm: [0, 1, 2, 4, 6, 8, 10], complement: '5-33' },
+  { forteNumber: '7-34', primeForm: [0, 1, 3, 4, 6, 8, 10], complement: '5-34', descriptiveName: 'acoustic (melodic minor) scale' },
+  { forteNumber: '7-35', primeForm: [0, 1, 3, 5, 6, 8, 10], complement: '5-35', descriptiveName: 'diatonic scale' },
+  { forteNumber: '7-Z36', primeForm: [0, 1, 2, 3, 5, 6, 8], complement: '5-Z36', zRelation: '7-Z12' },
+  { forteNumber: '7-Z37', primeForm: [0, 1, 3, 4, 5, 7, 8], complement: '5-Z37', zRelation: '7-Z17' },
+  { forteNumber: '7-Z38', primeForm: [0, 1, 2, 4, 5, 7, 8], complement: '5-Z38', zRelation: '7-Z18' },
+  { forteNumber: '8-1', primeForm: [0, 1, 2, 3, 4, 5, 6, 7], complement: '4-1', descriptiveName: 'chromatic octamer' },
+  { forteNumber: '8-2', primeForm: [0, 1, 2, 3, 4, 5, 6, 8], complement: '4-2' },
+  { forteNumber: '8-3', primeForm: [0, 1, 2, 3, 4, 5, 6, 9], complement: '4-3' },
+  { forteNumber: '8-4', primeForm: [0, 1, 2, 3, 4, 5, 7, 8], complement: '4-4' },
+  { forteNumber: '8-5', primeForm: [0, 1, 2, 3, 4, 6, 7, 8], complement: '4-5' },
+  { forteNumber: '8-6', primeForm: [0, 1, 2, 3, 5, 6, 7, 8], complement: '4-6' },
+  { forteNumber: '8-7', primeForm: [0, 1, 2, 3, 4, 5, 8, 9], complement: '4-7' },
+  { forteNumber: '8-8', primeForm: [0, 1, 2, 3, 4, 7, 8, 9], complement: '4-8' },
+  { forteNumber: '8-9', primeForm: [0, 1, 2, 3, 6, 7, 8, 9], complement: '4-9' },
+  { forteNumber: '8-10', primeForm: [0, 2, 3, 4, 5, 6, 7, 9], complement: '4-10' },
+  { forteNumber: '8-11', primeForm: [0, 1, 2, 3, 4, 5, 7, 9], complement: '4-11' },
+  { forteNumber: '8-12', primeForm: [0, 1, 3, 4, 5, 6, 7, 9], complement: '4-12' },
+  { forteNumber: '8-13', primeForm: [0, 1, 2, 3, 4, 6, 7, 9], complement: '4-13' },
+  { forteNumber: '8-14', primeForm: [0, 1, 2, 4, 5, 6, 7, 9], complement: '4-14' },
+  { forteNumber: '8-Z15', primeForm: [0, 1, 2, 3, 4, 6, 8, 9], complement: '4-Z15', zRelation: '8-Z29' },
+  { forteNumber: '8-16', primeForm: [0, 1, 2, 3, 5, 7, 8, 9], complement: '4-16' },
+  { forteNumber: '8-17', primeForm: [0, 1, 3, 4, 5, 6, 8, 9], complement: '4-17' },
+  { forteNumber: '8-18', primeForm: [0, 1, 2, 3, 5, 6, 8, 9], complement: '4-18' },
+  { forteNumber: '8-19', primeForm: [0, 1, 2, 4, 5, 6, 8, 9], complement: '4-19' },
+  { forteNumber: '8-20', primeForm: [0, 1, 2, 4, 5, 7, 8, 9], complement: '4-20' },
+  { forteNumber: '8-21', primeForm: [0, 1, 2, 3, 4, 6, 8, 10], complement: '4-21' },
+  { forteNumber: '8-22', primeForm: [0, 1, 2, 3, 5, 6, 8, 10], complement: '4-22' },
+  { forteNumber: '8-23', primeForm: [0, 1, 2, 3, 5, 7, 8, 10], complement: '4-23' },
+  { forteNumber: '8-24', primeForm: [0, 1, 2, 4, 5, 6, 8, 10], complement: '4-24' },
+  { forteNumber: '8-25', primeForm: [0, 1, 2, 4, 6, 7, 8, 10], complement: '4-25' },
+  { forteNumber: '8-26', primeForm: [0, 1, 2, 4, 5, 7, 9, 10], rahnPrimeForm: [0, 1, 3, 4, 5, 7, 8, 10], complement: '4-26' },
+  { forteNumber: '8-27', primeForm: [0, 1, 2, 4, 5, 7, 8, 10], complement: '4-27' },
+  { forteNumber: '8-28', primeForm: [0, 1, 3, 4, 6, 7, 9, 10], complement: '4-28', descriptiveName: 'octatonic scale' },
+  { forteNumber: '8-Z29', primeForm: [0, 1, 2, 3, 5, 6, 7, 9], complement: '4-Z29', zRelation: '8-Z15' },
+  { forteNumber: '9-1', primeForm: [0, 1, 2, 3, 4, 5, 6, 7, 8], complement: '3-1', descriptiveName: 'chromatic nonamer' },
+  { forteNumber: '9-2', primeForm: [0, 1, 2, 3, 4, 5, 6, 7, 9], complement: '3-2' },
+  { forteNumber: '9-3', primeForm: [0, 1, 2, 3, 4, 5, 6, 8, 9], complement: '3-3' },
+  { forteNumber: '9-4', primeForm: [0, 1, 2, 3, 4, 5, 7, 8, 9], complement: '3-4' },
+  { forteNumber: '9-5', primeForm: [0, 1, 2, 3, 4, 6, 7, 8, 9], complement: '3-5' },
+  { forteNumber: '9-6', primeForm: [0, 1, 2, 3, 4, 5, 6, 8, 10], complement: '3-6' },
+  { forteNumber: '9-7', primeForm: [0, 1, 2, 3, 4, 5, 7, 8, 10], complement: '3-7' },
+  { forteNumber: '9-8', primeForm: [0, 1, 2, 3, 4, 6, 7, 8, 10], complement: '3-8' },
+  { forteNumber: '9-9', primeForm: [0, 1, 2, 3, 5, 6, 7, 8, 10], complement: '3-9' },
+  { forteNumber: '9-10', primeForm: [0, 1, 2, 3, 4, 6, 7, 9, 10], complement: '3-10' },
+  { forteNumber: '9-11', primeForm: [0, 1, 2, 3, 5, 6, 7, 9, 10], complement: '3-11' },
+  { forteNumber: '9-12', primeForm: [0, 1, 2, 4, 5, 6, 8, 9, 10], complement: '3-12', descriptiveName: 'nonatonic (Messiaen mode 3) scale' },
+  { forteNumber: '10-1', primeForm: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], complement: '2-1' },
+  { forteNumber: '10-2', primeForm: [0, 1, 2, 3, 4, 5, 6, 7, 8, 10], complement: '2-2' },
+  { forteNumber: '10-3', primeForm: [0, 1, 2, 3, 4, 5, 6, 7, 9, 10], complement: '2-3' },
+  { forteNumber: '10-4', primeForm: [0, 1, 2, 3, 4, 5, 6, 8, 9, 10], complement: '2-4' },
+  { forteNumber: '10-5', primeForm: [0, 1, 2, 3, 4, 5, 7, 8, 9, 10], complement: '2-5' },
+  { forteNumber: '10-6', primeForm: [0, 1, 2, 3, 4, 6, 7, 8, 9, 10], complement: '2-6' },
+  { forteNumber: '11-1', primeForm: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10], complement: '1-1' },
+  { forteNumber: '12-1', primeForm: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11], complement: '0-1', descriptiveName: 'aggregate' },
+];
+
+export class SetClassCatalog {
+  private static byKey?: Map<number, SetClass>;
+  private static byForteNumber?: Map<string, SetClass>;
+  
+  /**
+   * Find the set class containing the given pitch classes
+   */
+  static lookup(pcs: Iterable<number>): SetClass | undefined {
+    let mask = 0;
+    for (const pc of pcs) {
+      mask |= 1 << (((pc % 12) + 12) % 12);
+    }
+    return this.getIndex().get(this.getClassKey(mask));
+  }
+  
+  /**
+   * Get a set class by its Forte number (e.g. "4-Z15")
+   */
+  static get(forteNumber: string): SetClass | undefined {
+    if (!this.byForteNumber) {
+      this.byForteNumber = new Map(SET_CLASSES.map(setClass => [setClass.forteNumber, setClass]));
+    }
+    return this.byForteNumber.get(forteNumber);
+  }
+  
+  static getAll(): SetClass[] {
+    return SET_CLASSES;
+  }
+  
+  private static getIndex(): Map<number, SetClass> {
+    if (!this.byKey) {
+      this.byKey = new Map();
+      SET_CLASSES.forEach(setClass => {
+        const mask = setClass.primeForm.reduce((m, pc) => m | (1 << pc), 0);
+        this.byKey!.set(this.getClassKey(mask), setClass);
+      });
+    }
+    return this.byKey;
+  }
+  
+  /**
+   * Helper: Smallest bitmask among all transpositions and inversions of a set,
+   * which identifies the set class independently of any prime-form convention
+   */
+  private static getClassKey(mask: number): number {
+    let inverted = 0;
+    for (let pc = 0; pc < 12; pc++) {
+      if (mask & (1 << pc)) inverted |= 1 << ((12 - pc) % 12);
+    }
+    
+    let key = mask;
+    for (let n = 0; n < 12; n++) {
+      key = Math.min(key, this.rotate(mask, n), this.rotate(inverted, n));
+    }
+    return key;
+  }
+  
+  private static rotate(mask: number, n: number): number {
+    return ((mask << n) | (mask >> (12 - n))) & 0xfff;
+  }
+}
@@ -0,0 +1,85 @@
+import type { Clip, Note } from './dawproject-parser';
+
+interface ShapeEdit {
+  clip: Clip;
+  previousNotes: Note[];
+}
+
+const DEFAULT_VELOCITY = 0.8;
+
+export class ShapeEditor {
+  private undoStack: ShapeEdit[] = [];
+
+  /**
+   * Add a note with this key sounding through a span of the clip, or take the key out
+   * of the span if it already sounds there. Notes are cut at the span's edges, so the
+   * rest of the clip is left as it was. The span defaults to the whole loop region.
+   */
+  toggleKey(clip: Clip, key: number, span: { start: number; end: number } = this.getRegion(clip)): void {
+    const previousNotes = clip.notes;
+    const { start, end } = span;
+
+    if (this.hasKey(clip, key, span)) {
+      clip.notes = previousNotes.flatMap(note => {
+        const noteEnd = note.time + note.duration;
+        if (note.key !== key || noteEnd <= start || note.time >= end) return [note];
+
+        // Keep the parts before and after the span
+        const parts: Note[] = [];
+        if (note.time < start) parts.push({ ...note, duration: start - note.time });
+        if (noteEnd > end) parts.push({ ...note, time: end, duration: noteEnd - end });
+        return parts;
+      });
+    } else {
+      clip.notes = [
+        ...previousNotes,
+        {
+          time: start,
+          duration: end - start,
+          key,
+          velocity: previousNotes[0]?.velocity ?? DEFAULT_VELOCITY,
+          channel: previousNotes[0]?.channel ?? 0
+        }
+      ];
+    }
+
+    this.undoStack.push({ clip, previousNotes });
+  }
+
+  /**
+   * Whether a note with this key sounds in a span of the clip (by default, anywhere
+   * in its loop region)
+   */
+  hasKey(clip: Clip, key: number, span: { start: number; end: number } = this.getRegion(clip)): boolean {
+    return clip.notes.some(note => note.key === key && note.time < span.end && note.time + note.duration > span.start);
+  }
+
+  /**
+   * Restore the notes from before the last edit. Returns the clip that changed.
+   */
+  undo(): Clip | undefined {
+    const edit = this.undoStack.pop();
+    if (!edit) return undefined;
+
+    edit.clip.notes = edit.previousNotes;
+    return edit.clip;
+  }
+
+  getUndoDepth(): number {
+    return this.undoStack.length;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+  }
+
+  /**
+   * Helper: The part of the clip that plays, in clip content time
+   */
+  private getRegion(clip: Clip): { start: number; end: number } {
+    if (clip.loopStart !== undefined && clip.loopEnd !== undefined && clip.loopEnd > clip.loopStart) {
+      return { start: clip.loopStart, end: clip.loopEnd };
+    }
+    return { start: 0, end: clip.duration };
+  }
+}
@@ -0,0 +1,100 @@
+import type { Note } from './dawproject-parser';
+
+export type SynthPattern = 'off' | 'block' | 'arpeggio-up' | 'arpeggio-down' | 'bass-chord';
+
+const ONSET_TOLERANCE = 0.05; // beats within which notes start the same chord
+const ARPEGGIO_STEP = 0.5;    // beats per arpeggio note (eighth notes)
+const BASS_LEAD = 1;          // beats the bass sounds alone before the rest of the chord
+
+const VOICE_LEVEL = 0.2;
+const ATTACK = 0.005;  // seconds
+const DECAY = 1.5;     // seconds for a held note to fade to about a third
+const RELEASE = 0.05;  // seconds after the note ends
+const HARMONICS = [1, 0.5, 0.25];
+
+export class ShapeSynth {
+  /**
+   * The notes a pattern plays for a shape. Block chords keep the notes as written;
+   * the other patterns take each group of notes starting together as a chord and
+   * break it up. Times are kept in the notes' own unit (beats).
+   */
+  static arrange(notes: Note[], pattern: SynthPattern): Note[] {
+    if (pattern === 'off') return [];
+    if (pattern === 'block') return notes.map(note => ({ ...note }));
+
+    const chords = this.groupChords(notes);
+    return chords.flatMap((chord, i) => {
+      const start = chord[0].time;
+      const end = Math.max(...chord.map(note => note.time + note.duration));
+      const byKey = [...chord].sort((a, b) => a.key - b.key);
+
+      if (pattern === 'bass-chord') {
+        if (byKey.length < 2) return byKey.map(note => ({ ...note }));
+        const chordStart = start + Math.min(BASS_LEAD, (end - start) / 2);
+        return [
+          { ...byKey[0], time: start, duration: end - start },
+          ...byKey.slice(1)
+            .filter(note => note.time + note.duration > chordStart)
+            .map(note => ({ ...note, time: chordStart, duration: note.time + note.duration - chordStart }))
+        ];
+      }
+
+      // Arpeggios cycle through the chord until it ends or the next one starts
+      const order = pattern === 'arpeggio-down' ? byKey.reverse() : byKey;
+      const stop = Math.min(end, chords[i + 1]?.[0].time ?? end);
+      const arpeggio: Note[] = [];
+      for (let time = start, step = 0; time < stop; time += ARPEGGIO_STEP, step++) {
+        const note = order[step % order.length];
+        arpeggio.push({ ...note, time, duration: Math.min(ARPEGGIO_STEP, stop - time) });
+      }
+      return arpeggio;
+    });
+  }
+
+  /**
+   * Render notes (times in seconds) as a soft electric-piano tone, mono
+   */
+  static render(notes: Note[], length: number, sampleRate: number): Float32Array {
+    const output = new Float32Array(Math.max(1, Math.round(length * sampleRate)));
+    const harmonicSum = HARMONICS.reduce((sum, level) => sum + level, 0);
+
+    notes.forEach(note => {
+      const frequency = 440 * 2 ** ((note.key - 69) / 12);
+      const start = Math.round(note.time * sampleRate);
+      const end = Math.min(output.length, Math.round((note.time + note.duration + RELEASE) * sampleRate));
+      const amplitude = (VOICE_LEVEL * note.velocity) / harmonicSum;
+
+      for (let i = Math.max(0, start); i < end; i++) {
+        const t = (i - start) / sampleRate;
+        const release = t > note.duration ? Math.max(0, 1 - (t - note.duration) / RELEASE) : 1;
+        const envelope = Math.min(1, t / ATTACK) * Math.exp(-t / DECAY) * release;
+        const phase = 2 * Math.PI * frequency * t;
+
+        let sample = 0;
+        HARMONICS.forEach((level, h) => (sample += level * Math.sin(phase * (h + 1))));
+        output[i] += amplitude * envelope * sample;
+      }
+    });
+
+    // Keep dense chords from clipping
+    const peak = output.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+    if (peak > 0.99) output.forEach((sample, i) => (output[i] = (sample * 0.99) / peak));
+
+    return output;
+  }
+
+  /**
+   * Helper: Notes grouped by onset, in time order
+   */
+  private static groupChords(notes: Note[]): Note[][] {
+    const chords: Note[][] = [];
+    [...notes]
+      .sort((a, b) => a.time - b.time)
+      .forEach(note => {
+        const chord = chords[chords.length - 1];
+        if (chord && note.time - chord[0].time <= ONSET_TOLERANCE) chord.push(note);
+        else chords.push([note]);
+      });
+    return chords;
+  }
+}
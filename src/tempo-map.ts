@@ -0,0 +1,182 @@
+export interface TempoPoint {
+  time: number;                        // beats
+  bpm: number;
+  interpolation: 'hold' | 'linear';    // how the tempo moves towards the next point
+}
+
+export interface TimeSignaturePoint {
+  time: number;                        // beats
+  numerator: number;
+  denominator: number;
+}
+
+export interface BarBeat {
+  bar: number;                         // 1-based
+  beat: number;                        // 1-based, in units of the time signature denominator
+  ticks: number;                       // fraction of a beat, 0-1
+}
+
+export class TempoMap {
+  private tempoPoints: TempoPoint[];
+  private timeSignaturePoints: TimeSignaturePoint[];
+  private segmentStartSeconds: number[] = [];
+
+  constructor(tempoPoints: TempoPoint[], timeSignaturePoints: TimeSignaturePoint[] = []) {
+    this.tempoPoints = [...tempoPoints].sort((a, b) => a.time - b.time);
+    if (this.tempoPoints.length === 0 || this.tempoPoints[0].time > 0) {
+      // The tempo before the first point is the first point's tempo
+      this.tempoPoints.unshift({ time: 0, bpm: this.tempoPoints[0]?.bpm ?? 120, interpolation: 'hold' });
+    }
+
+    this.timeSignaturePoints = [...timeSignaturePoints].sort((a, b) => a.time - b.time);
+    if (this.timeSignaturePoints.length === 0 || this.timeSignaturePoints[0].time > 0) {
+      const first = this.timeSignaturePoints[0];
+      this.timeSignaturePoints.unshift({ time: 0, numerator: first?.numerator ?? 4, denominator: first?.denominator ?? 4 });
+    }
+
+    // Precompute where each tempo segment starts in seconds
+    let seconds = 0;
+    this.tempoPoints.forEach((point, i) => {
+      this.segmentStartSeconds.push(seconds);
+      const next = this.tempoPoints[i + 1];
+      if (next) seconds += this.segmentSeconds(i, next.time - point.time);
+    });
+  }
+
+  /**
+   * Constant tempo and meter
+   */
+  static constant(bpm: number, numerator: number = 4, denominator: number = 4): TempoMap {
+    return new TempoMap([{ time: 0, bpm, interpolation: 'hold' }], [{ time: 0, numerator, denominator }]);
+  }
+
+  /**
+   * Convert a beat position (quarter notes from the project start) to seconds
+   */
+  beatsToSeconds(beats: number): number {
+    if (beats <= 0) return beats * (60 / this.tempoPoints[0].bpm);
+
+    const i = this.findSegment(beats);
+    return this.segmentStartSeconds[i] + this.segmentSeconds(i, beats - this.tempoPoints[i].time);
+  }
+
+  /**
+   * Convert seconds from the project start to a beat position
+   */
+  secondsToBeats(seconds: number): number {
+    if (seconds <= 0) return seconds * (this.tempoPoints[0].bpm / 60);
+
+    let i = this.segmentStartSeconds.length - 1;
+    while (i > 0 && this.segmentStartSeconds[i] > seconds) i--;
+
+    const point = this.tempoPoints[i];
+    const elapsed = seconds - this.segmentStartSeconds[i];
+    const slope = this.getSlope(i);
+    if (slope === 0) return point.time + elapsed * (point.bpm / 60);
+
+    // Inverse of segmentSeconds for a linear tempo ramp
+    return point.time + (point.bpm / slope) * (Math.exp((elapsed * slope) / 60) - 1);
+  }
+
+  /**
+   * Duration in seconds of a span of beats starting at a beat position
+   */
+  durationInSeconds(startBeats: number, lengthBeats: number): number {
+    return this.beatsToSeconds(startBeats + lengthBeats) - this.beatsToSeconds(startBeats);
+  }
+
+  /**
+   * Tempo in BPM at a beat position
+   */
+  getTempoAt(beats: number): number {
+    const i = this.findSegment(Math.max(0, beats));
+    return this.tempoPoints[i].bpm + this.getSlope(i) * (Math.max(0, beats) - this.tempoPoints[i].time);
+  }
+
+  getTimeSignatureAt(beats: number): TimeSignaturePoint {
+    let current = this.timeSignaturePoints[0];
+    for (const point of this.timeSignaturePoints) {
+      if (point.time > beats) break;
+      current = point;
+    }
+    return current;
+  }
+
+  /**
+   * Bar/beat position of a beat position, following meter changes
+   */
+  getBarBeat(beats: number): BarBeat {
+    let bar = 1;
+    let barStart = 0;
+
+    for (let i = 0; i < this.timeSignaturePoints.length; i++) {
+      const point = this.timeSignaturePoints[i];
+      const next = this.timeSignaturePoints[i + 1];
+      const barLength = point.numerator * (4 / point.denominator);
+
+      // Meter changes take effect on the next bar line at or after their position
+      const barsUntilNext = next ? Math.ceil((next.time - barStart) / barLength - 1e-9) : Infinity;
+      if (barStart + barsUntilNext * barLength <= beats) {
+        bar += barsUntilNext;
+        barStart += barsUntilNext * barLength;
+        continue;
+      }
+
+      const beatLength = 4 / point.denominator;
+      const barsElapsed = Math.floor((beats - barStart) / barLength + 1e-9);
+      const withinBar = beats - barStart - barsElapsed * barLength;
+      const beatInBar = withinBar / beatLength;
+      return {
+        bar: bar + barsElapsed,
+        beat: Math.floor(beatInBar + 1e-9) + 1,
+        ticks: beatInBar - Math.floor(beatInBar + 1e-9)
+      };
+    }
+
+    return { bar, beat: 1, ticks: 0 };
+  }
+
+  static formatBarBeat(position: BarBeat): string {
+    return `${position.bar}.${position.beat}`;
+  }
+
+  getTempoPoints(): TempoPoint[] {
+    return this.tempoPoints;
+  }
+
+  getTimeSignaturePoints(): TimeSignaturePoint[] {
+    return this.timeSignaturePoints;
+  }
+
+  isConstant(): boolean {
+    return this.tempoPoints.every(point => point.bpm === this.tempoPoints[0].bpm);
+  }
+
+  private findSegment(beats: number): number {
+    let i = this.tempoPoints.length - 1;
+    while (i > 0 && this.tempoPoints[i].time > beats) i--;
+    return i;
+  }
+
+  /**
+   * Helper: BPM change per beat within a segment (0 for held tempo)
+   */
+  private getSlope(i: number): number {
+    const point = this.tempoPoints[i];
+    const next = this.tempoPoints[i + 1];
+    if (!next || point.interpolation !== 'linear' || next.time === point.time) return 0;
+    return (next.bpm - point.bpm) / (next.time - point.time);
+  }
+
+  /**
+   * Helper: Seconds spent in the first `beats` beats of a segment
+   */
+  private segmentSeconds(i: number, beats: number): number {
+    const bpm = this.tempoPoints[i].bpm;
+    const slope = this.getSlope(i);
+    if (slope === 0) return beats * (60 / bpm);
+
+    // Integral of 60 / (bpm + slope * b) db
+    return (60 / slope) * Math.log((bpm + slope * beats) / bpm);
+  }
+}
@@ -0,0 +1,120 @@
+export const MIN_PLAYBACK_SPEED = 0.25;
+export const MAX_PLAYBACK_SPEED = 1.5;
+export const MAX_TRANSPOSITION = 12; // semitones either way
+
+const FRAME_SECONDS = 0.04;     // long enough to hold a few periods of a bass note
+const TOLERANCE_SECONDS = 0.01; // how far a frame may move to line up with the last one
+const SEARCH_STEP = 2;          // samples between candidate offsets
+const COMPARE_STEP = 4;         // samples between compared points
+
+export class TimeStretcher {
+  /**
+   * Change the length of audio without changing its pitch (WSOLA: waveform-similarity
+   * overlap-add). Windowed frames are read from the input at the new speed and each is
+   * nudged to the offset that best continues the waveform of the frame before it.
+   * Every channel uses the offsets found on their mix, so the stereo image holds.
+   */
+  static stretch(channels: Float32Array[], sampleRate: number, speed: number): Float32Array[] {
+    if (channels.length === 0 || speed === 1) return channels.map(channel => channel.slice());
+
+    const inputLength = channels[0].length;
+    const outputLength = Math.max(1, Math.round(inputLength / speed));
+    const frameLength = 2 * Math.max(1, Math.round((FRAME_SECONDS * sampleRate) / 2));
+    const synthesisHop = frameLength / 2;
+    const analysisHop = synthesisHop * speed;
+    const tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+
+    // Periodic Hann windows at half-frame hops add up to one
+    const window = new Float32Array(frameLength);
+    for (let i = 0; i < frameLength; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameLength);
+
+    const mix = new Float32Array(inputLength);
+    channels.forEach(channel => channel.forEach((sample, i) => (mix[i] += sample / channels.length)));
+
+    const outputs = channels.map(() => new Float32Array(outputLength + frameLength));
+    const weights = new Float32Array(outputLength + frameLength);
+    let previousStart = 0;
+
+    for (let frame = 0; frame * synthesisHop < outputLength; frame++) {
+      const nominal = Math.round(frame * analysisHop);
+      const start = frame === 0
+        ? 0
+        : this.findBestStart(mix, previousStart + synthesisHop, nominal, tolerance, synthesisHop);
+      const outputStart = frame * synthesisHop;
+
+      channels.forEach((channel, c) => {
+        const output = outputs[c];
+        for (let i = 0; i < frameLength && start + i < inputLength; i++) {
+          output[outputStart + i] += channel[start + i] * window[i];
+        }
+      });
+      for (let i = 0; i < frameLength; i++) weights[outputStart + i] += window[i];
+
+      previousStart = start;
+    }
+
+    // Undo the fade-in and fade-out the windows leave at the edges
+    return outputs.map(output => {
+      const result = output.subarray(0, outputLength);
+      for (let i = 0; i < outputLength; i++) {
+        if (weights[i] > 0.01) result[i] /= weights[i];
+      }
+      return result.slice();
+    });
+  }
+
+  /**
+   * Change the pitch of audio by semitones, and optionally its speed, keeping the
+   * tempo: stretch by the pitch ratio, then resample back to the stretched length
+   */
+  static shift(channels: Float32Array[], sampleRate: number, semitones: number, speed: number = 1): Float32Array[] {
+    if (semitones === 0 || channels.length === 0) return this.stretch(channels, sampleRate, speed);
+    
+    const ratio = 2 ** (semitones / 12);
+    const outputLength = Math.max(1, Math.round(channels[0].length / speed));
+    return this.stretch(channels, sampleRate, speed / ratio).map(channel => this.resample(channel, ratio, outputLength));
+  }
+  
+  /**
+   * Helper: Read through audio at a fixed step, interpolating between samples
+   */
+  private static resample(input: Float32Array, step: number, length: number): Float32Array {
+    const output = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      const position = i * step;
+      const index = Math.floor(position);
+      if (index >= input.length - 1) break;
+      const fraction = position - index;
+      output[i] = input[index] * (1 - fraction) + input[index + 1] * fraction;
+    }
+    return output;
+  }
+
+  /**
+   * Helper: The frame start near the nominal position whose waveform is most like the
+   * natural continuation of the previous frame
+   */
+  private static findBestStart(mix: Float32Array, continuation: number, nominal: number, tolerance: number, length: number): number {
+    const from = Math.max(0, nominal - tolerance);
+    const to = Math.min(mix.length - length, nominal + tolerance);
+    if (to < from || continuation + length > mix.length) return Math.max(0, Math.min(nominal, mix.length - 1));
+
+    let best = nominal;
+    let bestScore = -Infinity;
+    for (let candidate = from; candidate <= to; candidate += SEARCH_STEP) {
+      let correlation = 0;
+      let energy = 0;
+      for (let i = 0; i < length; i += COMPARE_STEP) {
+        const sample = mix[candidate + i];
+        correlation += sample * mix[continuation + i];
+        energy += sample * sample;
+      }
+      const score = correlation / Math.sqrt(energy + 1e-9);
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,142 @@
+import type { Clip, SceneData, Track } from './dawproject-parser';
+
+export type TrackRole = 'reference' | 'shape' | 'bass' | 'melody' | 'none';
+
+export const TRACK_ROLES: TrackRole[] = ['reference', 'shape', 'bass', 'melody', 'none'];
+
+export type TrackRoleMap = Record<string, TrackRole>; // track id -> role
+
+export interface NamingRule {
+  role: TrackRole;
+  pattern: string; // case-insensitive regular expression matched against the track name
+}
+
+export const DEFAULT_NAMING_CONVENTION: NamingRule[] = [
+  { role: 'reference', pattern: 'reference' },
+  { role: 'shape', pattern: 'shape' },
+  { role: 'bass', pattern: '\\bbass\\b' },
+  { role: 'melody', pattern: 'melody|lead' }
+];
+
+const ROLES_STORAGE_PREFIX = 'shape-shift:track-roles:';
+const NAMING_STORAGE_KEY = 'shape-shift:naming-convention';
+
+export class TrackRoles {
+  /**
+   * Assign roles from a naming convention (first matching rule wins). When no track is
+   * named as a reference or shape track, fall back to the first audio or notes track
+   * that has clips in the scenes.
+   */
+  static assign(tracks: Track[], scenes: SceneData[], convention: NamingRule[] = DEFAULT_NAMING_CONVENTION): TrackRoleMap {
+    const roles: TrackRoleMap = {};
+    tracks.forEach(track => {
+      const rule = convention.find(rule => this.matches(rule, track.name));
+      roles[track.id] = rule ? rule.role : 'none';
+    });
+
+    const hasRole = (role: TrackRole) => Object.values(roles).includes(role);
+    const usedInScenes = (track: Track, hasContent: (clip: Clip) => boolean) =>
+      scenes.some(scene => scene.clipSlots.some(slot => slot.trackId === track.id && slot.clip && hasContent(slot.clip)));
+
+    if (!hasRole('reference')) {
+      const track = tracks.find(track => roles[track.id] === 'none' && track.contentType.split(/\s+/).includes('audio') &&
+        usedInScenes(track, clip => !!clip.audioFile));
+      if (track) roles[track.id] = 'reference';
+    }
+    if (!hasRole('shape')) {
+      const track = tracks.find(track => roles[track.id] === 'none' && track.contentType.split(/\s+/).includes('notes') &&
+        usedInScenes(track, clip => clip.notes.length > 0));
+      if (track) roles[track.id] = 'shape';
+    }
+
+    return roles;
+  }
+
+  /**
+   * Ids of the tracks with a role, in track order
+   */
+  static getTrackIds(roles: TrackRoleMap, role: TrackRole): string[] {
+    return Object.keys(roles).filter(trackId => roles[trackId] === role);
+  }
+
+  /**
+   * Parse a naming convention written one rule per line as "role: pattern"
+   */
+  static parseNamingConvention(text: string): NamingRule[] {
+    return text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .map(line => {
+        const separator = line.indexOf(':');
+        const role = line.slice(0, separator).trim() as TrackRole;
+        const pattern = line.slice(separator + 1).trim();
+        if (separator < 0 || !TRACK_ROLES.includes(role)) {
+          throw new Error(`Expected "role: pattern" with a role of ${TRACK_ROLES.join(', ')}: ${line}`);
+        }
+        new RegExp(pattern, 'i'); // throws on an invalid pattern
+        return { role, pattern };
+      });
+  }
+
+  static formatNamingConvention(convention: NamingRule[]): string {
+    return convention.map(rule => `${rule.role}: ${rule.pattern}`).join('\n');
+  }
+
+  /**
+   * SHA-256 of a project file, used to remember its role mapping
+   */
+  static async hashProject(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  static load(projectHash: string): TrackRoleMap | undefined {
+    const stored = this.getStorage()?.getItem(ROLES_STORAGE_PREFIX + projectHash);
+    if (!stored) return undefined;
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      console.warn('Ignoring invalid stored track roles:', error);
+      return undefined;
+    }
+  }
+
+  static save(projectHash: string, roles: TrackRoleMap): void {
+    this.getStorage()?.setItem(ROLES_STORAGE_PREFIX + projectHash, JSON.stringify(roles));
+  }
+
+  static loadNamingConvention(): NamingRule[] {
+    const stored = this.getStorage()?.getItem(NAMING_STORAGE_KEY);
+    if (!stored) return DEFAULT_NAMING_CONVENTION;
+
+    try {
+      return this.parseNamingConvention(stored);
+    } catch (error) {
+      console.warn('Ignoring invalid stored naming convention:', error);
+      return DEFAULT_NAMING_CONVENTION;
+    }
+  }
+
+  static saveNamingConvention(convention: NamingRule[]): void {
+    this.getStorage()?.setItem(NAMING_STORAGE_KEY, this.formatNamingConvention(convention));
+  }
+
+  private static matches(rule: NamingRule, trackName: string): boolean {
+    try {
+      return new RegExp(rule.pattern, 'i').test(trackName);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Helper: localStorage where available (not in Node)
+   */
+  private static getStorage(): Storage | undefined {
+    return typeof localStorage !== 'undefined' ? localStorage : undefined;
+  }
+}
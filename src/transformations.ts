@@ -0,0 +1,179 @@
+import type { Note } from './dawproject-parser';
+import type { PitchClassSet } from './pitch-class-set';
+import type { Scene } from './scene-manager';
+
+export interface Triad {
+  root: number;
+  mode: 'major' | 'minor';
+}
+
+export interface VoiceMotion {
+  from: number;     // key in the first shape
+  to: number;       // key in the second shape
+  interval: number; // signed semitones
+}
+
+export interface VoiceLeading {
+  motions: VoiceMotion[];
+  distance: number; // sum of absolute voice motions in semitones
+}
+
+export interface SceneRelation {
+  from: Scene;
+  to: Scene;
+  operations: string[];       // Tn/TnI operations mapping the first set onto the second
+  neoRiemannianPath?: string; // e.g. "PL", only when both shapes are consonant triads
+  voiceLeading?: VoiceLeading;
+}
+
+type NeoRiemannianOperation = 'P' | 'L' | 'R';
+
+export class TransformationAnalyzer {
+  /**
+   * Relate the shapes of two scenes
+   */
+  static relateScenes(from: Scene, to: Scene): SceneRelation | undefined {
+    if (!from.pitchClassSet || !to.pitchClassSet) return undefined;
+
+    const fromTriad = this.getTriad(from.pitchClassSet);
+    const toTriad = this.getTriad(to.pitchClassSet);
+
+    return {
+      from,
+      to,
+      operations: this.findOperations(from.pitchClassSet, to.pitchClassSet),
+      neoRiemannianPath: fromTriad && toTriad ? this.findNeoRiemannianPath(fromTriad, toTriad) : undefined,
+      voiceLeading: this.findVoiceLeading(from.shapeNotes, to.shapeNotes)
+    };
+  }
+
+  /**
+   * Find every Tn and TnI that maps the first set exactly onto the second
+   */
+  static findOperations(from: PitchClassSet, to: PitchClassSet): string[] {
+    if (from.pitchClasses.size !== to.pitchClasses.size) return [];
+
+    const source = Array.from(from.pitchClasses);
+    const operations: string[] = [];
+    const matches = (mapped: number[]) => mapped.every(pc => to.pitchClasses.has(pc));
+
+    for (let n = 0; n < 12; n++) {
+      if (matches(source.map(pc => (pc + n) % 12))) operations.push(`T${n}`);
+    }
+    for (let n = 0; n < 12; n++) {
+      if (matches(source.map(pc => (n - pc + 12) % 12))) operations.push(`T${n}I`);
+    }
+
+    return operations;
+  }
+
+  /**
+   * Identify a major or minor triad
+   */
+  static getTriad(pcs: PitchClassSet): Triad | undefined {
+    if (pcs.pitchClasses.size !== 3) return undefined;
+
+    for (const root of pcs.pitchClasses) {
+      const has = (interval: number) => pcs.pitchClasses.has((root + interval) % 12);
+      if (has(7) && has(4)) return { root, mode: 'major' };
+      if (has(7) && has(3)) return { root, mode: 'minor' };
+    }
+    return undefined;
+  }
+
+  /**
+   * Shortest sequence of P, L and R transformations between two triads (breadth-first search)
+   */
+  static findNeoRiemannianPath(from: Triad, to: Triad): string {
+    const key = (triad: Triad) => `${triad.root}${triad.mode}`;
+    const visited = new Set([key(from)]);
+    let frontier: { triad: Triad; path: string }[] = [{ triad: from, path: '' }];
+
+    while (frontier.length > 0) {
+      const next: { triad: Triad; path: string }[] = [];
+      for (const { triad, path } of frontier) {
+        if (key(triad) === key(to)) return path;
+
+        for (const operation of ['P', 'L', 'R'] as NeoRiemannianOperation[]) {
+          const transformed = this.applyNeoRiemannian(triad, operation);
+          if (!visited.has(key(transformed))) {
+            visited.add(key(transformed));
+            next.push({ triad: transformed, path: path + operation });
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return '';
+  }
+
+  /**
+   * Minimal voice leading between two voicings, keeping register and voice order.
+   * Voices may split or merge when the shapes have different sizes.
+   */
+  static findVoiceLeading(fromNotes: Note[], toNotes: Note[]): VoiceLeading | undefined {
+    const a = Array.from(new Set(fromNotes.map(note => note.key))).sort((x, y) => x - y);
+    const b = Array.from(new Set(toNotes.map(note => note.key))).sort((x, y) => x - y);
+    if (a.length === 0 || b.length === 0) return undefined;
+
+    // cost[i][j]: smallest total motion covering a[0..i] and b[0..j] with a[i] -> b[j]
+    const cost: number[][] = a.map(() => new Array(b.length).fill(Infinity));
+    for (let i = 0; i < a.length; i++) {
+      for (let j = 0; j < b.length; j++) {
+        const motion = Math.abs(a[i] - b[j]);
+        if (i === 0 && j === 0) {
+          cost[i][j] = motion;
+        } else {
+          cost[i][j] = motion + Math.min(
+            i > 0 ? cost[i - 1][j] : Infinity,
+            j > 0 ? cost[i][j - 1] : Infinity,
+            i > 0 && j > 0 ? cost[i - 1][j - 1] : Infinity
+          );
+        }
+      }
+    }
+
+    // Walk back from the top voices to recover the motions
+    const motions: VoiceMotion[] = [];
+    let i = a.length - 1;
+    let j = b.length - 1;
+    while (i >= 0 && j >= 0) {
+      motions.unshift({ from: a[i], to: b[j], interval: b[j] - a[i] });
+      if (i === 0 && j === 0) break;
+
+      const diagonal = i > 0 && j > 0 ? cost[i - 1][j - 1] : Infinity;
+      const up = i > 0 ? cost[i - 1][j] : Infinity;
+      const left = j > 0 ? cost[i][j - 1] : Infinity;
+      if (diagonal <= up && diagonal <= left) {
+        i--;
+        j--;
+      } else if (up <= left) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+
+    return {
+      motions,
+      distance: cost[a.length - 1][b.length - 1]
+    };
+  }
+
+  private static applyNeoRiemannian(triad: Triad, operation: NeoRiemannianOperation): Triad {
+    const major = triad.mode === 'major';
+    switch (operation) {
+      case 'P':
+        return { root: triad.root, mode: major ? 'minor' : 'major' };
+      case 'L':
+        return major
+          ? { root: (triad.root + 4) % 12, mode: 'minor' }
+          : { root: (triad.root + 8) % 12, mode: 'major' };
+      case 'R':
+        return major
+          ? { root: (triad.root + 9) % 12, mode: 'minor' }
+          : { root: (triad.root + 3) % 12, mode: 'major' };
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import type { Clip, Note } from './dawproject-parser';
+import { ChordSymbolAnalyzer } from './chord-symbol';
+
+export interface DoubledTone {
+  pitchClass: number;
+  count: number;
+}
+
+export interface Voicing {
+  keys: number[];                 // sounding keys, lowest first
+  bass: number;                   // lowest key
+  inversion?: string;             // relative to the chord root, e.g. "1st inversion"
+  intervalStack: number[];        // semitones between adjacent keys, bottom up
+  span: number;                   // semitones from lowest to highest key
+  spread: number;                 // widest gap between adjacent keys
+  position: 'close' | 'open';
+  doubledTones: DoubledTone[];
+}
+
+export class VoicingAnalyzer {
+  /**
+   * Describe how a clip's notes are voiced, keeping register information
+   */
+  static analyzeClip(clip: Clip, root?: number): Voicing | undefined {
+    return this.analyzeNotes(clip.notes, root);
+  }
+
+  /**
+   * Describe one chord's voicing. The notes should sound together (a verticality);
+   * a key struck more than once counts once.
+   */
+  static analyzeNotes(notes: Note[], root?: number): Voicing | undefined {
+    if (notes.length === 0) return undefined;
+
+    const keys = Array.from(new Set(notes.map(note => note.key))).sort((a, b) => a - b);
+    const bass = keys[0];
+
+    const intervalStack: number[] = [];
+    for (let i = 1; i < keys.length; i++) {
+      intervalStack.push(keys[i] - keys[i - 1]);
+    }
+
+    return {
+      keys,
+      bass,
+      inversion: root !== undefined ? this.getInversion(bass, root) : undefined,
+      intervalStack,
+      span: keys[keys.length - 1] - bass,
+      spread: intervalStack.length > 0 ? Math.max(...intervalStack) : 0,
+      position: this.getPosition(keys),
+      doubledTones: this.getDoubledTones(keys)
+    };
+  }
+
+  /**
+   * Get a note name with octave (MIDI 60 = C4)
+   */
+  static getKeyName(key: number): string {
+    return `${ChordSymbolAnalyzer.getNoteName(key % 12)}${Math.floor(key / 12) - 1}`;
+  }
+
+  /**
+   * Name the inversion from the chord member in the bass
+   */
+  private static getInversion(bass: number, root: number): string {
+    const interval = (bass - root + 120) % 12;
+    switch (interval) {
+      case 0: return 'root position';
+      case 3:
+      case 4: return '1st inversion';
+      case 6:
+      case 7:
+      case 8: return '2nd inversion';
+      case 9:
+      case 10:
+      case 11: return '3rd inversion';
+      case 1:
+      case 2: return '9th in bass';
+      default: return '11th in bass';
+    }
+  }
+
+  /**
+   * Helper: Close position means no chord tone fits between adjacent upper voices
+   */
+  private static getPosition(keys: number[]): 'close' | 'open' {
+    const pitchClasses = new Set(keys.map(key => key % 12));
+    const upper = keys.slice(1);
+
+    for (let i = 1; i < upper.length; i++) {
+      for (let key = upper[i - 1] + 1; key < upper[i]; key++) {
+        if (pitchClasses.has(key % 12)) return 'open';
+      }
+    }
+    return 'close';
+  }
+
+  private static getDoubledTones(keys: number[]): DoubledTone[] {
+    const counts = new Map<number, number>();
+    keys.forEach(key => counts.set(key % 12, (counts.get(key % 12) || 0) + 1));
+
+    return Array.from(counts.entries())
+      .filter(([, count]) => count > 1)
+      .map(([pitchClass, count]) => ({ pitchClass, count }))
+      .sort((a, b) => a.pitchClass - b.pitchClass);
+  }
+}
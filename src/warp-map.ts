@@ -0,0 +1,50 @@
+export interface WarpMarker {
+  time: number;         // clip time (in the Warps timeUnit, usually beats)
+  contentTime: number;  // position in the source file, seconds
+}
+
+export interface WarpSegment {
+  sourceStart: number;  // seconds in the source file
+  sourceEnd: number;    // seconds in the source file
+  duration: number;     // seconds this segment lasts at the project tempo
+  silent?: boolean;     // padding that plays nothing for its duration
+}
+
+export class WarpMap {
+  private markers: WarpMarker[];
+
+  constructor(markers: WarpMarker[]) {
+    this.markers = [...markers].sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Map a clip time through the warp curve to source-file seconds,
+   * extrapolating the first and last segments beyond the markers
+   */
+  toContentTime(time: number): number {
+    const markers = this.markers;
+    if (markers.length === 0) return time;
+    if (markers.length === 1) return markers[0].contentTime + (time - markers[0].time);
+
+    let i = 0;
+    while (i < markers.length - 2 && markers[i + 1].time <= time) i++;
+
+    const a = markers[i];
+    const b = markers[i + 1];
+    if (b.time === a.time) return a.contentTime;
+    return a.contentTime + ((time - a.time) * (b.contentTime - a.contentTime)) / (b.time - a.time);
+  }
+
+  /**
+   * Marker times strictly inside a range of clip time
+   */
+  getMarkerTimesBetween(start: number, end: number): number[] {
+    return this.markers
+      .map(marker => marker.time)
+      .filter(time => time > start && time < end);
+  }
+
+  getMarkers(): WarpMarker[] {
+    return this.markers;
+  }
+}
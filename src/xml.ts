@@ -0,0 +1,282 @@
+export class XmlParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'XmlParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Minimal XML element tree, enough for DAWproject files and usable without a DOM
+ */
+export class XmlElement {
+  tagName: string;
+  attributes: Map<string, string>;
+  children: XmlElement[] = [];
+  parentElement: XmlElement | null = null;
+  text: string = ''; // character data directly inside this element
+
+  constructor(tagName: string, attributes: Map<string, string> = new Map()) {
+    this.tagName = tagName;
+    this.attributes = attributes;
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(name) ?? null;
+  }
+
+  setAttribute(name: string, value: string): void {
+    this.attributes.set(name, value);
+  }
+
+  removeAttribute(name: string): void {
+    this.attributes.delete(name);
+  }
+
+  appendChild(child: XmlElement): XmlElement {
+    child.parentElement = this;
+    this.children.push(child);
+    return child;
+  }
+
+  removeChild(child: XmlElement): void {
+    this.children = this.children.filter(existing => existing !== child);
+    child.parentElement = null;
+  }
+
+  /**
+   * Create an element with attributes in the given order
+   */
+  static create(tagName: string, attributes: Record<string, string> = {}): XmlElement {
+    return new XmlElement(tagName, new Map(Object.entries(attributes)));
+  }
+
+  /**
+   * Text of this element and all its descendants
+   */
+  get textContent(): string {
+    return this.text + this.children.map(child => child.textContent).join('');
+  }
+
+  /**
+   * First direct child with a tag name
+   */
+  child(tagName: string): XmlElement | null {
+    return this.children.find(child => child.tagName === tagName) ?? null;
+  }
+
+  childrenNamed(tagName: string): XmlElement[] {
+    return this.children.filter(child => child.tagName === tagName);
+  }
+
+  /**
+   * First descendant with a tag name, in document order
+   */
+  find(tagName: string, predicate?: (element: XmlElement) => boolean): XmlElement | null {
+    for (const child of this.children) {
+      if (child.tagName === tagName && (!predicate || predicate(child))) return child;
+      const found = child.find(tagName, predicate);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /**
+   * All descendants with a tag name, in document order
+   */
+  findAll(tagName: string, predicate?: (element: XmlElement) => boolean): XmlElement[] {
+    const found: XmlElement[] = [];
+    const visit = (element: XmlElement) => {
+      element.children.forEach(child => {
+        if (child.tagName === tagName && (!predicate || predicate(child))) found.push(child);
+        visit(child);
+      });
+    };
+    visit(this);
+    return found;
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Parse an XML document into its root element. Comments, processing instructions
+ * and the doctype are skipped; CDATA sections become text.
+ */
+export function parseXml(source: string): XmlElement {
+  let pos = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  const fail = (message: string): never => {
+    const before = source.slice(0, pos).split('\n');
+    throw new XmlParseError(message, before.length, before[before.length - 1].length + 1);
+  };
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, pos);
+    if (end < 0) fail(`Unterminated markup, expected "${terminator}"`);
+    pos = end + terminator.length;
+  };
+
+  const readName = (): string => {
+    const match = /^[^\s/>=<"']+/.exec(source.slice(pos, pos + 256));
+    if (!match) fail('Expected a name');
+    pos += match![0].length;
+    return match![0];
+  };
+
+  const skipWhitespace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  const addText = (text: string) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.text += text;
+    } else if (text.trim()) {
+      fail('Text outside the root element');
+    }
+  };
+
+  while (pos < source.length) {
+    if (source[pos] !== '<') {
+      const end = source.indexOf('<', pos);
+      const raw = source.slice(pos, end < 0 ? source.length : end);
+      addText(decodeEntities(raw, fail));
+      pos += raw.length;
+      continue;
+    }
+
+    if (source.startsWith('<!--', pos)) {
+      skipPast('-->');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      const end = source.indexOf(']]>', pos);
+      if (end < 0) fail('Unterminated CDATA section');
+      addText(source.slice(pos + 9, end));
+      pos = end + 3;
+    } else if (source.startsWith('<?', pos)) {
+      skipPast('?>');
+    } else if (source.startsWith('<!', pos)) {
+      skipPast('>');
+    } else if (source.startsWith('</', pos)) {
+      pos += 2;
+      const name = readName();
+      skipWhitespace();
+      if (source[pos] !== '>') fail(`Expected ">" to close </${name}`);
+      pos++;
+      const open = stack.pop();
+      if (!open) fail(`Unexpected closing tag </${name}>`);
+      if (open!.tagName !== name) fail(`Closing tag </${name}> does not match <${open!.tagName}>`);
+    } else {
+      pos++;
+      const element = new XmlElement(readName());
+
+      for (;;) {
+        skipWhitespace();
+        if (source.startsWith('/>', pos) || source[pos] === '>') break;
+        if (pos >= source.length) fail(`Unterminated tag <${element.tagName}>`);
+
+        const name = readName();
+        skipWhitespace();
+        if (source[pos] !== '=') fail(`Expected "=" after attribute ${name}`);
+        pos++;
+        skipWhitespace();
+        const quote = source[pos];
+        if (quote !== '"' && quote !== "'") fail(`Expected a quoted value for attribute ${name}`);
+        const end = source.indexOf(quote, pos + 1);
+        if (end < 0) fail(`Unterminated value for attribute ${name}`);
+        if (element.attributes.has(name)) fail(`Duplicate attribute ${name}`);
+        element.attributes.set(name, decodeEntities(source.slice(pos + 1, end), fail));
+        pos = end + 1;
+      }
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.appendChild(element);
+      } else if (root) {
+        fail('More than one root element');
+      } else {
+        root = element;
+      }
+
+      if (source.startsWith('/>', pos)) {
+        pos += 2;
+      } else {
+        pos++;
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 0) fail(`Unclosed element <${stack[stack.length - 1].tagName}>`);
+  if (!root) fail('No root element');
+  return root!;
+}
+
+/**
+ * Serialize an element tree as an indented XML document. Whitespace-only text
+ * between child elements is replaced by the indentation.
+ */
+export function serializeXml(root: XmlElement, indent: string = '    '): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'];
+
+  const write = (element: XmlElement, depth: number) => {
+    const padding = indent.repeat(depth);
+    const attributes = Array.from(element.attributes)
+      .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+      .join('');
+    const text = element.children.length > 0 && !element.text.trim() ? '' : element.text;
+
+    if (element.children.length === 0) {
+      lines.push(text
+        ? `${padding}<${element.tagName}${attributes}>${escapeXml(text)}</${element.tagName}>`
+        : `${padding}<${element.tagName}${attributes}/>`);
+      return;
+    }
+
+    lines.push(`${padding}<${element.tagName}${attributes}>${escapeXml(text)}`);
+    element.children.forEach(child => write(child, depth + 1));
+    lines.push(`${padding}</${element.tagName}>`);
+  };
+
+  write(root, 0);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Escape text for use in XML character data or attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeEntities(text: string, fail: (message: string) => never): string {
+  if (!text.includes('&')) return text;
+
+  return text.replace(/&([^;\s]*);?/g, (match, entity: string) => {
+    if (!match.endsWith(';')) fail(`Unterminated entity "${match}"`);
+    if (entity.startsWith('#')) {
+      const hex = /^#x[0-9a-f]+$/i.test(entity);
+      const codePoint = hex ? parseInt(entity.slice(2), 16) : /^#[0-9]+$/.test(entity) ? parseInt(entity.slice(1), 10) : NaN;
+      if (!Number.isFinite(codePoint) || codePoint > 0x10ffff) fail(`Invalid character reference "${match}"`);
+      return String.fromCodePoint(codePoint);
+    }
+    if (!Object.hasOwn(ENTITIES, entity)) fail(`Unknown entity "&${entity};"`);
+    return ENTITIES[entity];
+  });
+}